@@ -0,0 +1,139 @@
+import { bountyPayment, type Payout } from "./payments";
+import { scoreAgents, type ScoringProfile } from "./scoring";
+import type { AgentProfile, Bounty, MergedReputation } from "./types";
+
+// --- Bounty API Aggregation ---
+
+export function aggregateAgents(
+  bounties: Bounty[],
+  onChainData: Map<string, MergedReputation>,
+  profile?: ScoringProfile,
+  payouts: Map<string, Payout> = new Map()
+): AgentProfile[] {
+  const agents = new Map<string, AgentProfile>();
+
+  for (const b of bounties) {
+    if (!b.claimedBy) continue;
+    const addr = b.claimedBy;
+    const addrLower = addr.toLowerCase();
+
+    if (!agents.has(addrLower)) {
+      const onChain = onChainData.get(addrLower);
+      agents.set(addrLower, {
+        address: addr,
+        identity: null,
+        rank: 0,
+        rankChange: null,
+        score: 0,
+        scoreBreakdown: {} as AgentProfile["scoreBreakdown"],
+        risk: { level: "none", flags: [] },
+        onChainReputation: onChain?.reputationScore || 0,
+        chains: onChain?.chains || [],
+        totalEarnings: 0,
+        netEarnings: 0,
+        verifiedEarnings: 0,
+        bountiesCompleted: 0,
+        bountiesClaimed: 0,
+        successRate: 0,
+        tags: {},
+        tagStats: {},
+        outcomes: {},
+        recentFeedback: onChain?.feedback?.slice(-10) || [],
+        history: [],
+      });
+    }
+
+    const agent = agents.get(addrLower)!;
+    agent.bountiesClaimed++;
+
+    // Only completed bounties count as earned; amounts use the payout token's decimals
+    const payment = bountyPayment(b);
+    const completed = b.status === "completed";
+    const reward = completed ? payment.gross : 0;
+    const payout = completed ? payouts.get(b.id) : undefined;
+
+    if (completed) {
+      agent.bountiesCompleted++;
+      agent.totalEarnings += reward;
+      agent.netEarnings += payment.net;
+      if (payout) agent.verifiedEarnings += payout.amount;
+    }
+
+    agent.outcomes[b.status] = (agent.outcomes[b.status] || 0) + 1;
+
+    // Tags are case-insensitive, so "Solidity" and "solidity" share one key everywhere downstream
+    for (const tag of new Set((b.tags || []).map((t) => t.trim().toLowerCase()).filter(Boolean))) {
+      // hasOwn, so a tag named "constructor" doesn't pick up Object.prototype's
+      agent.tags[tag] = (Object.hasOwn(agent.tags, tag) ? agent.tags[tag] : 0) + 1;
+      if (!Object.hasOwn(agent.tagStats, tag)) agent.tagStats[tag] = { claimed: 0, completed: 0, earnings: 0, successRate: 0 };
+      const stats = agent.tagStats[tag];
+      stats.claimed++;
+      if (b.status === "completed") {
+        stats.completed++;
+        stats.earnings += reward;
+      }
+    }
+
+    const createdAt = b.createdAt || null;
+    const completedAt = completed ? b.completedAt || null : null;
+    agent.history.push({
+      bountyId: b.id,
+      title: b.title || "Untitled",
+      reward,
+      netReward: completed ? payment.net : 0,
+      token: payment.token.symbol,
+      status: b.status,
+      date: completedAt || createdAt || "",
+      createdAt,
+      completedAt,
+      turnaroundHours:
+        createdAt && completedAt
+          ? Math.round(((Date.parse(completedAt) - Date.parse(createdAt)) / 3_600_000) * 10) / 10
+          : null,
+      verified: !!payout,
+      payoutTx: payout?.txHash ?? null,
+    });
+  }
+
+  // Also add any on-chain agents not seen in bounty data
+  for (const [addrLower, onChain] of onChainData) {
+    if (!agents.has(addrLower)) {
+      agents.set(addrLower, {
+        address: onChain.address,
+        identity: null,
+        rank: 0,
+        rankChange: null,
+        score: 0,
+        scoreBreakdown: {} as AgentProfile["scoreBreakdown"],
+        risk: { level: "none", flags: [] },
+        onChainReputation: onChain.reputationScore,
+        chains: onChain.chains,
+        totalEarnings: 0,
+        netEarnings: 0,
+        verifiedEarnings: 0,
+        bountiesCompleted: 0,
+        bountiesClaimed: 0,
+        successRate: 0,
+        tags: {},
+        tagStats: {},
+        outcomes: {},
+        recentFeedback: onChain.feedback?.slice(-10) || [],
+        history: [],
+      });
+    }
+  }
+
+  // Calculate rates
+  for (const agent of agents.values()) {
+    agent.successRate =
+      agent.bountiesClaimed > 0
+        ? Math.round((agent.bountiesCompleted / agent.bountiesClaimed) * 100)
+        : 0;
+    for (const stats of Object.values(agent.tagStats)) {
+      stats.successRate = Math.round((stats.completed / stats.claimed) * 100);
+    }
+  }
+
+  // Rank by composite score (on-chain reputation, feedback, success rate, earnings, recency)
+  return scoreAgents([...agents.values()], onChainData, profile);
+}
@@ -0,0 +1,258 @@
+import { loadBounties, loadStatusHistory, type StatusChange } from "./db";
+import { bountyPayment } from "./payments";
+import type { Bounty } from "./types";
+
+// --- Performance Analytics ---
+//
+// Turnaround, abandonment, monthly output and activity streaks per agent and
+// across the board. Computed from stored bounties plus the status history the
+// sync records, so claims that were dropped and handed to someone else still
+// count against the agent that dropped them.
+
+// Statuses that end a claim without the work being completed
+const ABANDONED_STATUSES = new Set(["abandoned", "cancelled", "expired", "released", "unclaimed", "open"]);
+const WEEK_MS = 7 * 86_400_000;
+
+export interface TurnaroundStats {
+  /** Completed bounties with both createdAt and completedAt; hours run from one to the other */
+  samples: number;
+  medianHours: number | null;
+  p90Hours: number | null;
+}
+
+export interface MonthlyPoint {
+  /** YYYY-MM, UTC */
+  month: string;
+  completions: number;
+  /** Gross, token units */
+  earnings: number;
+  netEarnings: number;
+}
+
+export interface StreakStats {
+  /** Consecutive weeks (Monday-based, UTC) with at least one completion, up to this or last week */
+  current: number;
+  longest: number;
+  /** Monday of the most recent active week, or null if nothing was ever completed */
+  lastActiveWeek: string | null;
+}
+
+export interface AgentStats {
+  address: string;
+  /** Bounties this agent claimed at any point */
+  claims: number;
+  completed: number;
+  abandoned: number;
+  inProgress: number;
+  /** Percentage of claims dropped without completion */
+  abandonmentRate: number;
+  turnaround: TurnaroundStats;
+  monthly: MonthlyPoint[];
+  streaks: StreakStats;
+}
+
+export interface BoardStats {
+  agents: number;
+  claims: number;
+  completed: number;
+  abandoned: number;
+  abandonmentRate: number;
+  turnaround: TurnaroundStats;
+  monthly: Array<MonthlyPoint & { activeAgents: number }>;
+  /** Agents on the longest current streaks */
+  topStreaks: Array<{ address: string; current: number; longest: number }>;
+}
+
+interface Completion {
+  /** When it was completed (or created, failing that); null when neither date parses */
+  at: number | null;
+  hours: number | null;
+  gross: number;
+  net: number;
+}
+
+interface AgentRecord {
+  address: string;
+  claims: number;
+  abandoned: number;
+  inProgress: number;
+  completions: Completion[];
+}
+
+/** Nearest-rank percentile of an ascending list. */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function turnaround(completions: Completion[]): TurnaroundStats {
+  const hours = completions.flatMap((c) => (c.hours === null ? [] : [c.hours])).sort((a, b) => a - b);
+  const round = (v: number | null) => (v === null ? null : Math.round(v * 10) / 10);
+  return {
+    samples: hours.length,
+    medianHours: round(percentile(hours, 50)),
+    p90Hours: round(percentile(hours, 90)),
+  };
+}
+
+const monthOf = (t: number) => new Date(t).toISOString().slice(0, 7);
+
+// Every month from the first completion through the current one, so quiet months show as zero
+function monthRange(first: number, now: number): string[] {
+  const months: string[] = [];
+  const d = new Date(Date.UTC(new Date(first).getUTCFullYear(), new Date(first).getUTCMonth(), 1));
+  while (d.getTime() <= now) {
+    months.push(monthOf(d.getTime()));
+    d.setUTCMonth(d.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+// Completions without a date count everywhere except the time series
+const dated = (completions: Completion[]) => completions.filter((c): c is Completion & { at: number } => c.at !== null);
+
+function monthly(all: Completion[], now: number): MonthlyPoint[] {
+  const completions = dated(all);
+  if (completions.length === 0) return [];
+  const points = new Map<string, MonthlyPoint>();
+  // reduce rather than Math.min(...), which overflows the stack on a long history
+  const first = completions.reduce((min, c) => Math.min(min, c.at), Infinity);
+  for (const month of monthRange(first, now)) {
+    points.set(month, { month, completions: 0, earnings: 0, netEarnings: 0 });
+  }
+  for (const c of completions) {
+    const point = points.get(monthOf(c.at));
+    if (!point) continue;
+    point.completions++;
+    point.earnings += c.gross;
+    point.netEarnings += c.net;
+  }
+  return [...points.values()];
+}
+
+// Monday 00:00 UTC of the week containing t
+function weekStart(t: number): number {
+  const d = new Date(t);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+}
+
+function streaks(completions: Completion[], now: number): StreakStats {
+  const weeks = [...new Set(dated(completions).map((c) => weekStart(c.at)))].sort((a, b) => a - b);
+  if (weeks.length === 0) return { current: 0, longest: 0, lastActiveWeek: null };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < weeks.length; i++) {
+    run = weeks[i] - weeks[i - 1] === WEEK_MS ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  // The streak is still alive until a full week passes without a completion
+  const last = weeks[weeks.length - 1];
+  const current = weekStart(now) - last <= WEEK_MS ? run : 0;
+  return { current, longest, lastActiveWeek: new Date(last).toISOString().slice(0, 10) };
+}
+
+function collect(bounties: Bounty[], history: StatusChange[]): Map<string, AgentRecord> {
+  const claimers = new Map<string, Set<string>>();
+  for (const change of history) {
+    if (!change.claimedBy) continue;
+    if (!claimers.has(change.bountyId)) claimers.set(change.bountyId, new Set());
+    claimers.get(change.bountyId)!.add(change.claimedBy);
+  }
+
+  const agents = new Map<string, AgentRecord>();
+  const record = (addr: string, display: string) => {
+    if (!agents.has(addr)) agents.set(addr, { address: display, claims: 0, abandoned: 0, inProgress: 0, completions: [] });
+    return agents.get(addr)!;
+  };
+
+  for (const b of bounties) {
+    const current = b.claimedBy?.toLowerCase() ?? null;
+    const everClaimed = new Set(claimers.get(String(b.id)) ?? []);
+    if (current) everClaimed.add(current);
+
+    for (const addr of everClaimed) {
+      const agent = record(addr, addr === current ? b.claimedBy! : addr);
+      agent.claims++;
+      if (addr !== current || ABANDONED_STATUSES.has(b.status)) {
+        agent.abandoned++;
+      } else if (b.status === "completed") {
+        // Measured from creation, like turnaroundHours in an agent's history
+        const start = Date.parse(b.createdAt || "");
+        const end = Date.parse(b.completedAt || "");
+        const at = Number.isNaN(end) ? start : end;
+        const payment = bountyPayment(b);
+        agent.completions.push({
+          at: Number.isNaN(at) ? null : at,
+          hours: Number.isNaN(end) || Number.isNaN(start) || end < start ? null : (end - start) / 3_600_000,
+          gross: payment.gross,
+          net: payment.net,
+        });
+      } else {
+        agent.inProgress++;
+      }
+    }
+  }
+  return agents;
+}
+
+const rate = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+function summarize(agent: AgentRecord, now: number): AgentStats {
+  return {
+    address: agent.address,
+    claims: agent.claims,
+    completed: agent.completions.length,
+    abandoned: agent.abandoned,
+    inProgress: agent.inProgress,
+    abandonmentRate: rate(agent.abandoned, agent.claims),
+    turnaround: turnaround(agent.completions),
+    monthly: monthly(agent.completions, now),
+    streaks: streaks(agent.completions, now),
+  };
+}
+
+/** Stats for one agent, or null if it never claimed a bounty. */
+export function agentStats(address: string, now = Date.now()): AgentStats | null {
+  const agent = collect(loadBounties(), loadStatusHistory()).get(address.toLowerCase());
+  return agent ? summarize(agent, now) : null;
+}
+
+/** Stats for every agent that ever claimed a bounty, by lowercased address, from one read of the store. */
+export function allAgentStats(now = Date.now()): Map<string, AgentStats> {
+  const agents = collect(loadBounties(), loadStatusHistory());
+  return new Map([...agents].map(([addr, agent]) => [addr, summarize(agent, now)]));
+}
+
+/** Board-wide stats over every agent's claims. */
+export function boardStats(now = Date.now()): BoardStats {
+  const agents = [...collect(loadBounties(), loadStatusHistory()).values()];
+  const completions = agents.flatMap((a) => a.completions);
+  const claims = agents.reduce((n, a) => n + a.claims, 0);
+  const abandoned = agents.reduce((n, a) => n + a.abandoned, 0);
+
+  const active = new Map<string, Set<string>>();
+  for (const agent of agents) {
+    for (const c of dated(agent.completions)) {
+      const month = monthOf(c.at);
+      if (!active.has(month)) active.set(month, new Set());
+      active.get(month)!.add(agent.address.toLowerCase());
+    }
+  }
+
+  return {
+    agents: agents.length,
+    claims,
+    completed: completions.length,
+    abandoned,
+    abandonmentRate: rate(abandoned, claims),
+    turnaround: turnaround(completions),
+    monthly: monthly(completions, now).map((p) => ({ ...p, activeAgents: active.get(p.month)?.size ?? 0 })),
+    topStreaks: agents
+      .map((a) => ({ address: a.address, ...streaks(a.completions, now) }))
+      .filter((s) => s.current > 0)
+      .sort((a, b) => b.current - a.current || b.longest - a.longest)
+      .slice(0, 10)
+      .map(({ address, current, longest }) => ({ address, current, longest })),
+  };
+}
@@ -0,0 +1,87 @@
+import type { AgentProfile } from "./types";
+
+// --- Reputation Badges ---
+//
+// Shields-style SVG badges for READMEs and websites. Text widths are
+// estimated from Verdana's metrics rather than measured, which is close
+// enough for the short strings a badge carries.
+
+export const BADGE_STYLES = ["flat", "flat-square", "plastic", "for-the-badge"] as const;
+export type BadgeStyle = (typeof BADGE_STYLES)[number];
+
+const MAX_LABEL = 32;
+
+// Approximate advance widths at 11px Verdana
+const NARROW = new Set([..."iljt.,:;|!'()[] "]);
+const WIDE = new Set([..."mwMW#%@"]);
+
+function textWidth(text: string, style: BadgeStyle): number {
+  if (style === "for-the-badge") return text.length * 8.5 + 2;
+  let w = 0;
+  for (const ch of text) w += NARROW.has(ch) ? 3.8 : WIDE.has(ch) ? 10 : /[A-Z0-9]/.test(ch) ? 7.5 : 6.6;
+  return Math.ceil(w);
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c]!);
+
+function badgeColor(agent: AgentProfile | null): string {
+  if (!agent) return "#9f9f9f";
+  if (agent.risk.level === "high") return "#e05d44";
+  if (agent.score >= 75) return "#4c1";
+  if (agent.score >= 50) return "#97ca00";
+  if (agent.score >= 25) return "#dfb317";
+  return "#fe7d37";
+}
+
+/** Badge message: rank, on-chain reputation and success rate. */
+export function badgeMessage(agent: AgentProfile | null): string {
+  if (!agent) return "not ranked";
+  return `#${agent.rank} | rep ${agent.onChainReputation} | ${agent.successRate}% success`;
+}
+
+/** Renders the badge; a null agent gets a grey "not ranked" badge so embeds never break. */
+export function renderBadge(agent: AgentProfile | null, style: BadgeStyle = "flat", label = "reputation"): string {
+  const big = style === "for-the-badge";
+  const left = (big ? label.toUpperCase() : label).slice(0, MAX_LABEL);
+  const right = big ? badgeMessage(agent).toUpperCase() : badgeMessage(agent);
+  const pad = big ? 12 : 6;
+  const lw = textWidth(left, style) + pad * 2;
+  const rw = textWidth(right, style) + pad * 2;
+  const width = lw + rw;
+  const height = big ? 28 : 20;
+  const radius = style === "flat" || style === "plastic" ? 3 : 0;
+  const color = badgeColor(agent);
+  const title = escapeXml(`${left}: ${right}`);
+
+  const gradient =
+    style === "plastic"
+      ? `<linearGradient id="g" x2="0" y2="100%"><stop offset="0" stop-color="#fff" stop-opacity=".7"/><stop offset=".1" stop-color="#aaa" stop-opacity=".1"/><stop offset=".9" stop-opacity=".3"/><stop offset="1" stop-opacity=".5"/></linearGradient>`
+      : style === "flat"
+        ? `<linearGradient id="g" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>`
+        : "";
+  const font = big
+    ? `font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="10" font-weight="bold" letter-spacing="1.25"`
+    : `font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11"`;
+  const textY = big ? 18 : 14;
+
+  // Small badges get the usual 1px drop shadow under the text
+  const text = (x: number, s: string) =>
+    (!big ? `<text x="${x}" y="${textY + 1}" fill="#010101" fill-opacity=".3">${escapeXml(s)}</text>` : "") +
+    `<text x="${x}" y="${textY}" fill="#fff">${escapeXml(s)}</text>`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${title}">
+<title>${title}</title>
+${gradient}
+<clipPath id="r"><rect width="${width}" height="${height}" rx="${radius}" fill="#fff"/></clipPath>
+<g clip-path="url(#r)">
+<rect width="${lw}" height="${height}" fill="#555"/>
+<rect x="${lw}" width="${rw}" height="${height}" fill="${color}"/>
+${gradient ? `<rect width="${width}" height="${height}" fill="url(#g)"/>` : ""}
+</g>
+<g text-anchor="middle" ${font}>
+${text(lw / 2, left)}
+${text(lw + rw / 2, right)}
+</g>
+</svg>`;
+}
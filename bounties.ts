@@ -0,0 +1,183 @@
+import { bountyApiErrors, bountyApiRequests } from "./metrics";
+import type { Bounty } from "./types";
+
+// --- Bounty Board API Client ---
+//
+// Responses are validated bounty by bounty before they reach the store;
+// malformed entries are dropped and counted instead of failing the sync.
+// Requests time out and are retried with backoff. After a full fetch, syncs
+// only ask for bounties changed since the previous successful fetch.
+
+export const BOUNTY_API = (process.env.BOUNTY_API || "https://bounty.owockibot.xyz").replace(/\/+$/, "");
+const TIMEOUT = parseInt(process.env.BOUNTY_API_TIMEOUT_MS || "10000", 10);
+const RETRIES = parseInt(process.env.BOUNTY_API_RETRIES || "3", 10);
+const PAGE_SIZE = parseInt(process.env.BOUNTY_API_PAGE_SIZE || "100", 10);
+// A periodic full fetch reconciles anything an incremental one could miss
+const FULL_SYNC_INTERVAL = parseInt(process.env.BOUNTY_FULL_SYNC_MS || "3600000", 10);
+const MAX_PAGES = 1000;
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+
+const upstream = {
+  lastAttemptAt: null as string | null,
+  lastSuccessAt: null as string | null,
+  lastFullSyncAt: null as string | null,
+  lastError: null as string | null,
+  consecutiveFailures: 0,
+  /** Bounties received by the last successful fetch */
+  fetched: 0,
+  /** Entries dropped by validation in the last successful fetch */
+  rejected: 0,
+};
+// Start time of the last successful fetch, sent as `since` on the next one
+let since: number | null = null;
+let lastFullSync = 0;
+
+export function bountyApiStatus() {
+  return { url: BOUNTY_API, ...upstream };
+}
+
+const optionalString = (v: unknown) => (typeof v === "string" && v !== "" ? v : undefined);
+const amount = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? String(v) : optionalString(v));
+const date = (v: unknown) => {
+  const s = optionalString(v);
+  return s && !Number.isNaN(Date.parse(s)) ? s : undefined;
+};
+
+/** Checks one upstream bounty against the `Bounty` shape; returns null when it can't be used. */
+export function parseBounty(raw: unknown): Bounty | null {
+  if (!raw || typeof raw !== "object") return null;
+  const b = raw as Record<string, unknown>;
+
+  const id = typeof b.id === "number" ? String(b.id) : optionalString(b.id);
+  const title = optionalString(b.title);
+  const status = optionalString(b.status);
+  if (!id || !title || !status) return null;
+
+  // Addresses feed aggregation keys, so a malformed one invalidates the bounty
+  for (const key of ["claimedBy", "creator"] as const) {
+    if (b[key] != null && !(typeof b[key] === "string" && ADDRESS_RE.test(b[key] as string))) return null;
+  }
+  if (b.tags != null && !Array.isArray(b.tags)) return null;
+
+  let payment: Bounty["payment"];
+  if (b.payment && typeof b.payment === "object") {
+    const p = b.payment as Record<string, unknown>;
+    if (p.token != null && !(typeof p.token === "string" && ADDRESS_RE.test(p.token))) return null;
+    payment = {
+      grossAmount: amount(p.grossAmount),
+      grossReward: amount(p.grossReward),
+      netAmount: amount(p.netAmount),
+      fee: amount(p.fee),
+      token: optionalString(p.token),
+      decimals: Number.isInteger(p.decimals) ? (p.decimals as number) : undefined,
+      txHash: typeof p.txHash === "string" && /^0x[0-9a-fA-F]{64}$/.test(p.txHash) ? p.txHash : undefined,
+    };
+  }
+
+  return {
+    id,
+    title,
+    description: typeof b.description === "string" ? b.description : "",
+    status,
+    reward: amount(b.reward) ?? "0",
+    rewardFormatted: optionalString(b.rewardFormatted) ?? "",
+    tags: ((b.tags as unknown[]) ?? []).filter((t): t is string => typeof t === "string" && t !== ""),
+    claimedBy: optionalString(b.claimedBy),
+    creator: optionalString(b.creator),
+    createdAt: date(b.createdAt),
+    claimedAt: date(b.claimedAt),
+    completedAt: date(b.completedAt),
+    payment,
+  };
+}
+
+async function getJson(url: string): Promise<unknown> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    bountyApiRequests.inc();
+    try {
+      res = await fetch(url, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(TIMEOUT),
+      });
+    } catch (err) {
+      bountyApiErrors.inc({ reason: err instanceof Error && err.name === "TimeoutError" ? "timeout" : "network" });
+      if (attempt >= RETRIES) throw err;
+      await Bun.sleep(500 * 2 ** attempt);
+      continue;
+    }
+    if (res.ok) return res.json();
+    bountyApiErrors.inc({ reason: `http_${res.status}` });
+
+    // Client errors won't improve on retry; rate limits and server errors might
+    const retryable = res.status === 429 || res.status >= 500;
+    if (!retryable || attempt >= RETRIES) throw new Error(`HTTP ${res.status} from ${url}`);
+    await Bun.sleep(500 * 2 ** attempt);
+  }
+}
+
+// Accept a bare array or a { bounties } / { data } envelope
+function pageItems(body: unknown): unknown[] {
+  if (Array.isArray(body)) return body;
+  const envelope = body as Record<string, unknown> | null;
+  const items = envelope?.bounties ?? envelope?.data;
+  if (Array.isArray(items)) return items;
+  throw new Error("Bounty API returned an unexpected response shape");
+}
+
+/**
+ * Fetches bounties page by page. `full` is false when only bounties changed
+ * since the last successful fetch were requested. Throws when upstream is
+ * unreachable so callers can keep serving what they stored before.
+ */
+export async function fetchBounties(): Promise<{ bounties: Bounty[]; full: boolean }> {
+  const startedAt = Date.now();
+  const full = since === null || startedAt - lastFullSync >= FULL_SYNC_INTERVAL;
+  upstream.lastAttemptAt = new Date(startedAt).toISOString();
+
+  try {
+    const bounties = new Map<string, Bounty>();
+    let rejected = 0;
+
+    for (let page = 0, offset = 0; page < MAX_PAGES; page++) {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (!full) params.set("since", new Date(since!).toISOString());
+      const items = pageItems(await getJson(`${BOUNTY_API}/bounties?${params}`));
+
+      let added = 0;
+      let repeated = 0;
+      for (const item of items) {
+        const bounty = parseBounty(item);
+        if (!bounty) rejected++;
+        else if (bounties.has(bounty.id)) repeated++;
+        else {
+          bounties.set(bounty.id, bounty);
+          added++;
+        }
+      }
+      // A short page ends the listing; so does a repeat, for upstreams that ignore paging
+      if (items.length < PAGE_SIZE || (repeated > 0 && added === 0)) break;
+      offset += items.length;
+    }
+
+    since = startedAt;
+    if (full) {
+      lastFullSync = startedAt;
+      upstream.lastFullSyncAt = upstream.lastAttemptAt;
+    }
+    Object.assign(upstream, {
+      lastSuccessAt: new Date().toISOString(),
+      lastError: null,
+      consecutiveFailures: 0,
+      fetched: bounties.size,
+      rejected,
+    });
+    if (rejected > 0) console.warn(`Bounty API: dropped ${rejected} malformed bounties`);
+    return { bounties: [...bounties.values()], full };
+  } catch (err) {
+    upstream.lastError = err instanceof Error ? err.message : String(err);
+    upstream.consecutiveFailures++;
+    throw err;
+  }
+}
@@ -0,0 +1,261 @@
+import { deflateSync } from "node:zlib";
+import { escapeHtml } from "./html";
+import { tokenInfo } from "./payments";
+import type { AgentProfile } from "./types";
+
+// --- Open Graph Cards ---
+//
+// Link previews for agent profiles: meta tags rendered into the profile page and
+// a 1200x630 PNG card. Unfurlers (Twitter/X, Slack, Discord) don't accept SVG
+// images, so the card is rasterised here with a 5x7 bitmap font and encoded
+// as PNG directly, keeping the server free of native image dependencies.
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+type Rgb = [number, number, number];
+
+const BG: Rgb = [10, 11, 16];
+const CARD: Rgb = [18, 20, 31];
+const TEXT: Rgb = [224, 224, 224];
+const MUTED: Rgb = [136, 144, 164];
+const ACCENT: Rgb = [139, 92, 246];
+
+// 5x7 glyphs, one 5-bit row per entry, most significant bit on the left
+const GLYPHS: Record<string, number[]> = {
+  "0": [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  "1": [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  "2": [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  "3": [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  "4": [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  "5": [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  "6": [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  "7": [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  "8": [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  "9": [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  A: [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  x: [0x00, 0x00, 0x11, 0x0a, 0x04, 0x0a, 0x11],
+  "#": [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+  "%": [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+  ".": [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  ",": [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+  ":": [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  "-": [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  "+": [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+  "/": [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+  "|": [0x04, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  "(": [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ")": [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+};
+
+// --- Raster ---
+
+function createCanvas() {
+  const pixels = new Uint8Array(WIDTH * HEIGHT * 3);
+
+  const fillRect = (x: number, y: number, w: number, h: number, [r, g, b]: Rgb) => {
+    for (let row = Math.max(0, y); row < Math.min(HEIGHT, y + h); row++) {
+      for (let col = Math.max(0, x); col < Math.min(WIDTH, x + w); col++) {
+        const i = (row * WIDTH + col) * 3;
+        pixels[i] = r;
+        pixels[i + 1] = g;
+        pixels[i + 2] = b;
+      }
+    }
+  };
+
+  /** Draws text with each font pixel scaled to a `scale`-px square. */
+  const drawText = (text: string, x: number, y: number, scale: number, color: Rgb) => {
+    let cx = x;
+    for (const ch of text) {
+      const glyph = GLYPHS[ch] ?? GLYPHS[ch.toUpperCase()];
+      if (glyph) {
+        glyph.forEach((bits, row) => {
+          for (let col = 0; col < 5; col++) {
+            if (bits & (0x10 >> col)) fillRect(cx + col * scale, y + row * scale, scale, scale, color);
+          }
+        });
+      }
+      cx += 6 * scale;
+    }
+  };
+
+  return { pixels, fillRect, drawText };
+}
+
+const textWidth = (text: string, scale: number) => text.length * 6 * scale - scale;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function encodePng(pixels: Uint8Array): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, WIDTH);
+  view.setUint32(4, HEIGHT);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const raw = new Uint8Array(HEIGHT * (WIDTH * 3 + 1));
+  for (let y = 0; y < HEIGHT; y++) {
+    raw.set(pixels.subarray(y * WIDTH * 3, (y + 1) * WIDTH * 3), y * (WIDTH * 3 + 1) + 1);
+  }
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", new Uint8Array(deflateSync(raw))),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    png.set(p, offset);
+    offset += p.length;
+  }
+  return png;
+}
+
+// --- Card ---
+
+const shortAddress = (a: string) => `${a.slice(0, 6)}...${a.slice(-4)}`;
+
+function compact(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 10_000) return `${Math.round(n / 1000)}K`;
+  return n >= 100 ? String(Math.round(n)) : n.toFixed(n % 1 ? 1 : 0);
+}
+
+function scoreColor(score: number): Rgb {
+  if (score >= 75) return [34, 197, 94];
+  if (score >= 50) return [132, 204, 22];
+  if (score >= 25) return [234, 179, 8];
+  return [249, 115, 22];
+}
+
+// Rendered cards by lowercased address, with the sync they were drawn from; oldest entries go first once full
+const CARD_CACHE_SIZE = 500;
+const cardCache = new Map<string, { syncedAt: string | null; png: Uint8Array<ArrayBuffer> }>();
+
+/** A card from cache while the data behind it hasn't been re-synced, rendered otherwise. */
+export function cachedCard(address: string, agent: AgentProfile | null, syncedAt: string | null): Uint8Array<ArrayBuffer> {
+  const key = address.toLowerCase();
+  const hit = cardCache.get(key);
+  if (hit && hit.syncedAt === syncedAt) return hit.png;
+  const png = renderCard(address, agent);
+  cardCache.delete(key);
+  cardCache.set(key, { syncedAt, png });
+  if (cardCache.size > CARD_CACHE_SIZE) cardCache.delete(cardCache.keys().next().value!);
+  return png;
+}
+
+/** The 1200x630 Open Graph image for an agent (or an "unranked" card for unknown addresses). */
+export function renderCard(address: string, agent: AgentProfile | null): Uint8Array<ArrayBuffer> {
+  const { pixels, fillRect, drawText } = createCanvas();
+  const accent = agent ? scoreColor(agent.score) : MUTED;
+
+  fillRect(0, 0, WIDTH, HEIGHT, BG);
+  fillRect(0, 0, WIDTH, 12, accent);
+  drawText("ERC-8004 AGENT REPUTATION", 80, 70, 5, MUTED);
+  drawText(`0x${shortAddress(address).slice(2).toUpperCase()}`, 80, 130, 11, TEXT);
+
+  if (!agent) {
+    drawText("NOT RANKED YET", 80, 330, 8, MUTED);
+  } else {
+    const stats: Array<[string, string, Rgb]> = [
+      [`#${agent.rank}`, "RANK", ACCENT],
+      [String(agent.onChainReputation), "ON-CHAIN REP", ACCENT],
+      [`${agent.successRate}%`, "SUCCESS", accent],
+      [compact(agent.totalEarnings), `${tokenInfo().symbol} EARNED`, [34, 197, 94]],
+    ];
+    const colWidth = (WIDTH - 160 - 3 * 24) / 4;
+    stats.forEach(([value, label, color], i) => {
+      const x = 80 + i * (colWidth + 24);
+      fillRect(x, 260, colWidth, 200, CARD);
+      const scale = Math.min(10, Math.floor((colWidth - 40) / (value.length * 6)));
+      drawText(value, x + 20, 290, scale, color);
+      drawText(label, x + 20, 415, 3, MUTED);
+    });
+    drawText(`SCORE ${agent.score.toFixed(1)}/100 | ${agent.bountiesCompleted} COMPLETED`, 80, 500, 5, TEXT);
+  }
+  drawText("AGENT REPUTATION DASHBOARD", WIDTH - 80 - textWidth("AGENT REPUTATION DASHBOARD", 3), HEIGHT - 50, 3, MUTED);
+  return encodePng(pixels);
+}
+
+// --- Meta Tags ---
+
+/** `<title>` plus Open Graph and Twitter tags for an agent's profile page. */
+export function profileMeta(address: string, agent: AgentProfile | null, origin: string): string {
+  const title = agent
+    ? `${agent.identity?.name ?? `Agent ${shortAddress(agent.address)}`} — #${agent.rank} on the ERC-8004 leaderboard`
+    : `Agent ${shortAddress(address)} — ERC-8004 Reputation`;
+  const description = agent
+    ? `On-chain reputation ${agent.onChainReputation} · ${agent.successRate}% success over ${agent.bountiesClaimed} bounties · ${agent.totalEarnings.toFixed(2)} ${tokenInfo().symbol} earned`
+    : "This address has no bounty history or on-chain reputation yet.";
+  const url = `${origin}/agent/${address}`;
+  const image = `${origin}/og/${address}.png`;
+
+  const tags: Array<[string, string, string]> = [
+    ["name", "description", description],
+    ["property", "og:type", "profile"],
+    ["property", "og:site_name", "Agent Reputation Dashboard"],
+    ["property", "og:title", title],
+    ["property", "og:description", description],
+    ["property", "og:url", url],
+    ["property", "og:image", image],
+    ["property", "og:image:width", String(WIDTH)],
+    ["property", "og:image:height", String(HEIGHT)],
+    ["name", "twitter:card", "summary_large_image"],
+    ["name", "twitter:title", title],
+    ["name", "twitter:description", description],
+    ["name", "twitter:image", image],
+  ];
+  return [
+    `<title>${escapeHtml(title)}</title>`,
+    ...tags.map(([attr, key, value]) => `<meta ${attr}="${key}" content="${escapeHtml(value)}">`),
+  ].join("\n");
+}
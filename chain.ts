@@ -0,0 +1,149 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  createPublicClient,
+  defineChain,
+  fallback,
+  http,
+  parseAbi,
+  parseAbiItem,
+  type Chain,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import * as knownChains from "viem/chains";
+import { rpcCalls, rpcDuration } from "./metrics";
+
+// --- Chains & Registries ---
+//
+// Every chain in chains.config.json gets its own client and ERC-8004
+// registry. Each chain's settings can be overridden from the environment
+// with its upper-cased key, e.g. BASE_SEPOLIA_RPC_URL for "base-sepolia".
+// Chains marked `testnet` are only enabled when CHAINS names them, since
+// feedback there costs nothing to give.
+
+interface ChainConfigEntry {
+  chainId: number;
+  /** Tried in order; later URLs are fallbacks */
+  rpcUrls: string[];
+  registry: string;
+  /** ERC-8004 identity registry, if one is deployed on this chain */
+  identityRegistry?: string;
+  deployBlock?: number;
+  testnet?: boolean;
+}
+
+export interface RegistryChain {
+  /** Config key, e.g. "base-sepolia" */
+  key: string;
+  chainId: number;
+  name: string;
+  registry: `0x${string}`;
+  identityRegistry: `0x${string}` | null;
+  /** First block of the feedback backfill; binary-searched when null */
+  deployBlock: bigint | null;
+  testnet: boolean;
+  client: PublicClient<Transport, Chain>;
+}
+
+const CONFIG_PATH = process.env.CHAINS_CONFIG || join(import.meta.dir, "chains.config.json");
+const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// Minimal ERC-8004 ABI: reputation reads plus the feedback write used by the profile page
+export const REPUTATION_ABI = parseAbi([
+  "function getReputation(address agent) view returns (uint256)",
+  "function getFeedback(address agent) view returns ((address from, int8 score, string comment, uint256 timestamp)[])",
+  "function getAgentCount() view returns (uint256)",
+  "function getAgentByIndex(uint256 index) view returns (address)",
+  "function totalReputation(address agent) view returns (uint256)",
+  "function giveFeedback(address agent, int8 score, string comment)",
+]);
+
+// ERC-8004 identity registry lookup; agentDomain hosts the agent card
+export const IDENTITY_ABI = parseAbi([
+  "function resolveByAddress(address agentAddress) view returns ((uint256 agentId, string agentDomain, address agentAddress))",
+]);
+
+// Emitted by the registry for every feedback entry; the indexer rebuilds getFeedback() from these
+export const FEEDBACK_EVENT = parseAbiItem(
+  "event FeedbackGiven(address indexed agent, address indexed from, int8 score, string comment, uint256 timestamp)"
+);
+
+// viem's chain definitions carry the Multicall3 address; unknown chains assume the canonical deployment
+function chainDefinition(key: string, chainId: number, rpcUrls: string[]): Chain {
+  const known = Object.values(knownChains).find((c) => (c as Chain).id === chainId) as Chain | undefined;
+  if (known) return known;
+  return defineChain({
+    id: chainId,
+    name: key,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: rpcUrls } },
+    contracts: { multicall3: { address: MULTICALL3 } },
+  });
+}
+
+// Counts and times each request to one RPC endpoint, so fallbacks and retries show up in /metrics
+export function instrumented(chainKey: string, transport: Transport): Transport {
+  return (params) => {
+    const inner = transport(params);
+    const request: typeof inner.request = async (args, options) => {
+      const startedAt = performance.now();
+      let outcome = "ok";
+      try {
+        return await inner.request(args, options);
+      } catch (err) {
+        outcome = "error";
+        throw err;
+      } finally {
+        rpcCalls.inc({ chain: chainKey, method: args.method, outcome });
+        rpcDuration.observe({ chain: chainKey, method: args.method }, (performance.now() - startedAt) / 1000);
+      }
+    };
+    return { ...inner, request };
+  };
+}
+
+function loadChains(): RegistryChain[] {
+  const config = JSON.parse(readFileSync(CONFIG_PATH, "utf8")) as { chains: Record<string, ChainConfigEntry> };
+  const enabled = process.env.CHAINS?.split(",").map((k) => k.trim()).filter(Boolean);
+
+  const chains = Object.entries(config.chains)
+    .filter(([key, entry]) => (enabled ? enabled.includes(key) : !entry.testnet))
+    .map(([key, entry]): RegistryChain => {
+      const envKey = key.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+      const rpcUrls = [process.env[`${envKey}_RPC_URL`], ...entry.rpcUrls].filter((u): u is string => !!u);
+      if (rpcUrls.length === 0) throw new Error(`Chain "${key}" in ${CONFIG_PATH} has no RPC URLs`);
+
+      const deployBlock = process.env[`${envKey}_DEPLOY_BLOCK`] ?? entry.deployBlock;
+      const identityRegistry = process.env[`${envKey}_IDENTITY_REGISTRY`] || entry.identityRegistry;
+      const chain = chainDefinition(key, entry.chainId, rpcUrls);
+      return {
+        key,
+        chainId: entry.chainId,
+        name: chain.name,
+        registry: (process.env[`${envKey}_REGISTRY`] || entry.registry) as `0x${string}`,
+        identityRegistry: (identityRegistry as `0x${string}` | undefined) ?? null,
+        deployBlock: deployBlock !== undefined ? BigInt(deployBlock) : null,
+        testnet: entry.testnet === true,
+        client: createPublicClient({
+          chain,
+          transport: fallback(rpcUrls.map((url) => instrumented(key, http(url)))),
+        }),
+      };
+    });
+
+  if (chains.length === 0) throw new Error(`No chains enabled (CHAINS=${process.env.CHAINS ?? ""})`);
+  return chains;
+}
+
+export const CHAINS = loadChains();
+
+/**
+ * Testnet feedback is free to give, so it only counts toward reputation when
+ * no mainnet is enabled (a local or testnet-only setup).
+ */
+export const SCORED_TESTNETS = CHAINS.every((c) => c.testnet);
+
+export function chainById(chainId: number): RegistryChain | undefined {
+  return CHAINS.find((c) => c.chainId === chainId);
+}
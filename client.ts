@@ -0,0 +1,355 @@
+import { COMPARE_COLORS } from "./compare";
+
+// --- Browser Scripts ---
+//
+// Served from /assets so the pages' Content-Security-Policy can forbid
+// inline script. Markup is never built here: sections come pre-rendered and
+// escaped from the server, and charts draw to canvas.
+
+// Re-fetches the page and swaps every data-live section for its fresh copy
+const LIVE_JS = `
+async function refresh() {
+  const res = await fetch(location.href, { headers: { Accept: 'text/html' } });
+  if (!res.ok) return;
+  const doc = new DOMParser().parseFromString(await res.text(), 'text/html');
+  document.querySelectorAll('[data-live]').forEach(el => {
+    const fresh = doc.getElementById(el.id);
+    if (fresh) el.replaceWith(document.adoptNode(fresh));
+  });
+}
+function later(timer, fn, ms) { clearTimeout(timer); return setTimeout(fn, ms); }
+function chart(old, el, config) {
+  if (old) old.destroy();
+  return el ? new Chart(el, config) : null;
+}
+function shortAddr(a) { return a ? a.slice(0,6)+'...'+a.slice(-4) : '?'; }
+`;
+
+export const DASHBOARD_JS = `${LIVE_JS}
+const defaultProfile = document.body.dataset.defaultProfile;
+const token = document.body.dataset.token;
+let repChart, successChart, scatterChart, statusChart, activityChart, activeChart, searchTimer, refreshTimer, chartTimer, statsTimer;
+// Latest known state of every agent (keyed by lowercased address), for the charts
+const agentState = new Map();
+function profile() { return new URL(location.href).searchParams.get('score') || defaultProfile; }
+function upsertChart(existing, el, config) {
+  if (!existing) return new Chart(el, config);
+  existing.data = config.data;
+  existing.update('none');
+  return existing;
+}
+function renderCharts() {
+  const agents = [...agentState.values()].sort((a,b)=>a.rank-b.rank);
+  const top8 = agents.slice(0,8);
+  repChart = upsertChart(repChart, document.getElementById('repChart'),{type:'bar',data:{labels:top8.map(a=>a.identity&&a.identity.name||shortAddr(a.address)),datasets:[{label:'Reputation',data:top8.map(a=>a.onChainReputation),backgroundColor:'#8b5cf6',borderRadius:6}]},options:{indexAxis:'y',plugins:{legend:{display:false}},scales:{x:{ticks:{color:'#888'},grid:{color:'#1e2235'}},y:{ticks:{color:'#aaa'},grid:{display:false}}}}});
+
+  const brackets={'90-100%':0,'70-89%':0,'50-69%':0,'25-49%':0,'0-24%':0};
+  agents.forEach(a=>{if(a.successRate>=90)brackets['90-100%']++;else if(a.successRate>=70)brackets['70-89%']++;else if(a.successRate>=50)brackets['50-69%']++;else if(a.successRate>=25)brackets['25-49%']++;else brackets['0-24%']++;});
+  successChart = upsertChart(successChart, document.getElementById('successChart'),{type:'doughnut',data:{labels:Object.keys(brackets),datasets:[{data:Object.values(brackets),backgroundColor:['#22c55e','#84cc16','#eab308','#f97316','#ef4444']}]},options:{plugins:{legend:{labels:{color:'#aaa'}}}}});
+
+  scatterChart = upsertChart(scatterChart, document.getElementById('scatterChart'),{type:'scatter',data:{datasets:[{label:'Agents',data:agents.filter(a=>a.totalEarnings>0||a.onChainReputation>0).map(a=>({x:a.totalEarnings,y:a.onChainReputation})),backgroundColor:'#6366f1',pointRadius:6}]},options:{scales:{x:{title:{display:true,text:'Earnings ('+token+')',color:'#888'},ticks:{color:'#888'},grid:{color:'#1e2235'}},y:{title:{display:true,text:'On-Chain Reputation',color:'#888'},ticks:{color:'#888'},grid:{color:'#1e2235'}}},plugins:{legend:{display:false}}}});
+
+  const sts={completed:0,claimed:0,submitted:0,other:0};
+  agents.forEach(a=>Object.entries(a.outcomes).forEach(([status,n])=>{status in sts?sts[status]+=n:sts.other+=n;}));
+  statusChart = upsertChart(statusChart, document.getElementById('statusChart'),{type:'pie',data:{labels:['Completed','Claimed','Submitted','Other'],datasets:[{data:[sts.completed,sts.claimed,sts.submitted,sts.other],backgroundColor:['#22c55e','#eab308','#3b82f6','#6b7280']}]},options:{plugins:{legend:{labels:{color:'#aaa'}}}}});
+}
+async function loadCharts() {
+  const res = await fetch('/api/agents?fields=identity,onChainReputation,totalEarnings,successRate,outcomes&score=' + encodeURIComponent(profile()));
+  if (!res.ok) return;
+  agentState.clear();
+  (await res.json()).forEach(a=>agentState.set(a.address.toLowerCase(), a));
+  renderCharts();
+}
+async function loadStats() {
+  const res = await fetch('/api/stats');
+  if (!res.ok) return;
+  const s = await res.json();
+  const labels = s.monthly.map(p=>p.month);
+  activityChart = upsertChart(activityChart, document.getElementById('activityChart'),{type:'bar',data:{labels,datasets:[
+    {label:'Completions',data:s.monthly.map(p=>p.completions),backgroundColor:'#6366f1',borderRadius:4,yAxisID:'y'},
+    {type:'line',label:'Earnings ('+token+')',data:s.monthly.map(p=>p.earnings),borderColor:'#22c55e',backgroundColor:'#22c55e',yAxisID:'y1',tension:0.2},
+  ]},options:{plugins:{legend:{labels:{color:'#aaa'}}},scales:{x:{ticks:{color:'#888'}},y:{ticks:{color:'#888',precision:0},beginAtZero:true},y1:{position:'right',ticks:{color:'#888'},grid:{display:false},beginAtZero:true}}}});
+  activeChart = upsertChart(activeChart, document.getElementById('activeChart'),{type:'line',data:{labels,datasets:[{label:'Active agents',data:s.monthly.map(p=>p.activeAgents),borderColor:'#eab308',backgroundColor:'#eab308',tension:0.2}]},options:{plugins:{legend:{display:false}},scales:{x:{ticks:{color:'#888'}},y:{ticks:{color:'#888',precision:0},beginAtZero:true}}}});
+}
+// Agents ticked for comparison, kept across pages, searches and live refreshes
+const selected = new Set();
+const compareForm = document.getElementById('compareForm');
+const maxCompare = Number(compareForm.dataset.max);
+function syncSelection() {
+  document.querySelectorAll('input[name="addresses"]').forEach(box => { box.checked = selected.has(box.value); });
+  document.getElementById('compareBtn').disabled = selected.size < 2;
+  document.getElementById('compareHint').textContent = selected.size > 0
+    ? selected.size + ' selected (up to ' + maxCompare + ')'
+    : 'Tick 2-' + maxCompare + ' agents to compare them side by side';
+}
+async function reload() {
+  await refresh();
+  syncSelection();
+}
+// Sorting, paging and filters are plain links and GET forms; with JS they swap sections in place instead of reloading
+async function navigate(href, replace) {
+  const before = profile();
+  history[replace ? 'replaceState' : 'pushState'](null, '', href);
+  await reload();
+  if (profile() !== before) loadCharts();
+}
+// The current URL already holds the page's state; the hidden inputs are only for no-JS submits
+function formHref(form) {
+  const params = new URLSearchParams(location.search);
+  // A new search or scoring profile starts the leaderboard from the first page
+  if (form.id === 'leaderboardForm') params.delete('offset');
+  [...form.elements].filter(el => el.name && el.type !== 'hidden').forEach(el => {
+    if (el.value === '') params.delete(el.name);
+    else params.set(el.name, el.value);
+  });
+  const qs = params.toString();
+  return qs ? '/?' + qs : '/';
+}
+document.addEventListener('click', e => {
+  if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey) return;
+  const link = e.target.closest('a[data-nav]');
+  if (link) { e.preventDefault(); navigate(link.href); return; }
+  const row = e.target.closest('tr[data-href]');
+  if (row && !e.target.closest('a, input, td.pick')) location.href = row.dataset.href;
+});
+document.addEventListener('change', e => {
+  if (e.target.name === 'addresses') {
+    if (!e.target.checked) selected.delete(e.target.value);
+    else if (selected.size < maxCompare) selected.add(e.target.value);
+    syncSelection();
+    return;
+  }
+  const form = e.target.closest('form[data-nav-form]');
+  if (form && e.target.tagName === 'SELECT') navigate(formHref(form));
+});
+document.addEventListener('submit', e => {
+  if (!e.target.matches('form[data-nav-form]')) return;
+  e.preventDefault();
+  navigate(formHref(e.target));
+});
+compareForm.addEventListener('submit', e => {
+  e.preventDefault();
+  if (selected.size >= 2) location.href = '/compare?addresses=' + [...selected].map(encodeURIComponent).join(',');
+});
+document.getElementById('search').addEventListener('input', e => {
+  clearTimeout(searchTimer);
+  searchTimer = setTimeout(() => navigate(formHref(e.target.form), true), 300);
+});
+window.addEventListener('popstate', () => { reload(); loadCharts(); });
+// Live updates: events carry default-profile scores, so other profiles reload their chart data
+function onStreamEvent(e) {
+  const ev = JSON.parse(e.data);
+  refreshTimer = later(refreshTimer, reload, 1000);
+  if (profile() !== defaultProfile) {
+    chartTimer = later(chartTimer, loadCharts, 1000);
+    return;
+  }
+  if (ev.type === 'agent.updated') {
+    agentState.set(ev.address, ev.agent);
+    chartTimer = later(chartTimer, renderCharts, 250);
+    statsTimer = later(statsTimer, loadStats, 2000);
+  } else if (ev.type === 'rank.changed' && ev.rank === null) {
+    agentState.delete(ev.address);
+    chartTimer = later(chartTimer, renderCharts, 250);
+  }
+}
+syncSelection();
+loadCharts();
+loadStats();
+const stream = new EventSource('/api/stream');
+['agent.updated','rank.changed','feedback.new'].forEach(t=>stream.addEventListener(t, onStreamEvent));
+`;
+
+export const PROFILE_JS = `${LIVE_JS}
+const addr = document.body.dataset.address;
+const token = document.body.dataset.token;
+let outcomeChart, tagChart, rankChart, trendChart, monthlyChart, sentimentChart, refreshTimer;
+async function loadCharts() {
+  const res = await fetch('/api/agent/' + addr);
+  if (!res.ok) return;
+  const a = await res.json();
+  const outcomes={completed:0,claimed:0,submitted:0,other:0};
+  a.history.forEach(h=>{outcomes[h.status]!==undefined?outcomes[h.status]++:outcomes.other++;});
+  outcomeChart = chart(outcomeChart, document.getElementById('outcomeChart'),{type:'doughnut',data:{labels:Object.keys(outcomes),datasets:[{data:Object.values(outcomes),backgroundColor:['#22c55e','#eab308','#3b82f6','#6b7280']}]},options:{plugins:{legend:{labels:{color:'#aaa'}}}}});
+
+  const sortedTags=Object.entries(a.tags).sort((x,y)=>y[1]-x[1]).slice(0,8);
+  tagChart = chart(tagChart, document.getElementById('tagChart'),{type:'bar',data:{labels:sortedTags.map(t=>t[0]),datasets:[{data:sortedTags.map(t=>t[1]),backgroundColor:'#8b5cf6',borderRadius:4}]},options:{plugins:{legend:{display:false}},scales:{x:{ticks:{color:'#888'}},y:{ticks:{color:'#888'},beginAtZero:true}}}});
+
+  // The server only renders these canvases when there is data for them
+  if (document.getElementById('monthlyChart')) {
+    const sres = await fetch('/api/agent/' + addr + '/stats');
+    const s = sres.ok ? await sres.json() : null;
+    if (s) monthlyChart = chart(monthlyChart, document.getElementById('monthlyChart'),{type:'bar',data:{labels:s.monthly.map(p=>p.month),datasets:[
+      {label:'Earnings ('+token+')',data:s.monthly.map(p=>p.earnings),backgroundColor:'#22c55e',borderRadius:4,yAxisID:'y'},
+      {label:'Net ('+token+')',data:s.monthly.map(p=>p.netEarnings),backgroundColor:'#14b8a6',borderRadius:4,yAxisID:'y'},
+      {type:'line',label:'Completions',data:s.monthly.map(p=>p.completions),borderColor:'#6366f1',backgroundColor:'#6366f1',yAxisID:'y1',tension:0.2},
+    ]},options:{plugins:{legend:{labels:{color:'#aaa'}}},scales:{x:{ticks:{color:'#888'}},y:{ticks:{color:'#888'},beginAtZero:true},y1:{position:'right',ticks:{color:'#888',precision:0},grid:{display:false},beginAtZero:true}}}});
+  }
+  if (document.getElementById('rankChart')) {
+    const hres = await fetch('/api/agent/' + addr + '/history?interval=day&from=' + (Date.now() - 90*86400000));
+    const points = hres.ok ? (await hres.json()).points : [];
+    const labels = points.map(p=>p.timestamp.slice(0,10));
+    rankChart = chart(rankChart, document.getElementById('rankChart'),{type:'line',data:{labels,datasets:[{label:'Rank',data:points.map(p=>p.rank),borderColor:'#6366f1',backgroundColor:'#6366f1',tension:0.2}]},options:{plugins:{legend:{display:false}},scales:{x:{ticks:{color:'#888'}},y:{reverse:true,ticks:{color:'#888',precision:0}}}}});
+    trendChart = chart(trendChart, document.getElementById('trendChart'),{type:'line',data:{labels,datasets:[
+      {label:'Reputation',data:points.map(p=>p.reputation),borderColor:'#8b5cf6',backgroundColor:'#8b5cf6',yAxisID:'y',tension:0.2},
+      {label:'Earnings ('+token+')',data:points.map(p=>p.earnings),borderColor:'#22c55e',backgroundColor:'#22c55e',yAxisID:'y1',tension:0.2},
+      {label:'Success Rate %',data:points.map(p=>p.successRate),borderColor:'#eab308',backgroundColor:'#eab308',yAxisID:'y2',tension:0.2},
+    ]},options:{plugins:{legend:{labels:{color:'#aaa'}}},scales:{x:{ticks:{color:'#888'}},y:{ticks:{color:'#888'}},y1:{position:'right',ticks:{color:'#888'},grid:{display:false}},y2:{display:false,min:0,max:100}}}});
+  }
+  loadSentiment();
+}
+async function loadSentiment() {
+  if (!document.getElementById('sentimentChart')) return;
+  const res = await fetch('/api/agent/' + addr + '/feedback');
+  if (!res.ok) return;
+  const months = (await res.json()).timeline;
+  sentimentChart = chart(sentimentChart, document.getElementById('sentimentChart'),{type:'bar',data:{labels:months.map(m=>m.month),datasets:[
+    {label:'Positive',data:months.map(m=>m.positive),backgroundColor:'#22c55e',stack:'count',yAxisID:'y'},
+    {label:'Neutral',data:months.map(m=>m.neutral),backgroundColor:'#6b7280',stack:'count',yAxisID:'y'},
+    {label:'Negative',data:months.map(m=>m.negative),backgroundColor:'#ef4444',stack:'count',yAxisID:'y'},
+    {type:'line',label:'Positive %',data:months.map(m=>Math.round(m.positiveRatio*100)),borderColor:'#8b5cf6',backgroundColor:'#8b5cf6',yAxisID:'y1',tension:0.2},
+  ]},options:{plugins:{legend:{labels:{color:'#aaa'}}},scales:{x:{stacked:true,ticks:{color:'#888'}},y:{stacked:true,ticks:{color:'#888',precision:0},beginAtZero:true},y1:{position:'right',min:0,max:100,ticks:{color:'#888'},grid:{display:false}}}}});
+}
+// The feedback list pages and filters through plain links and a GET form; with JS they swap the list in place
+async function showFeedback(href) {
+  history.pushState(null, '', href);
+  await refresh();
+}
+function feedbackHref(form) {
+  const params = new URLSearchParams();
+  [...form.elements].filter(el => el.name && el.value !== '').forEach(el => params.set(el.name, el.value));
+  const qs = params.toString();
+  return location.pathname + (qs ? '?' + qs : '') + '#feedbackSection';
+}
+document.addEventListener('click', e => {
+  if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey) return;
+  const link = e.target.closest('a[data-nav]');
+  if (link) { e.preventDefault(); showFeedback(link.href); }
+});
+document.addEventListener('change', e => {
+  const form = e.target.closest('form[data-nav-form]');
+  if (form && e.target.tagName === 'SELECT') showFeedback(feedbackHref(form));
+});
+document.addEventListener('submit', e => {
+  if (!e.target.matches('form[data-nav-form]')) return;
+  e.preventDefault();
+  showFeedback(feedbackHref(e.target));
+});
+window.addEventListener('popstate', () => refresh());
+// Feedback is written from the poster's own wallet (EIP-1193); the server only vets eligibility and builds calldata
+let wallet = null;
+function showWallet() {
+  document.getElementById('connectBtn').textContent = wallet ? 'Connected: ' + shortAddr(wallet) : 'Connect wallet';
+  document.getElementById('feedbackForm').style.display = wallet ? 'block' : 'none';
+}
+async function connectWallet() {
+  const status = document.getElementById('fbStatus');
+  if (!window.ethereum) { status.textContent = 'No browser wallet found. Install an EIP-1193 wallet such as MetaMask.'; return; }
+  try {
+    const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+    wallet = accounts[0];
+    showWallet();
+    status.textContent = '';
+  } catch (err) {
+    status.textContent = 'Wallet connection was rejected.';
+  }
+}
+async function submitFeedback(e) {
+  e.preventDefault();
+  const status = document.getElementById('fbStatus');
+  status.textContent = 'Checking eligibility...';
+  const res = await fetch('/api/agent/' + addr + '/feedback/prepare', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: wallet,
+      score: Number(document.getElementById('fbScore').value),
+      comment: document.getElementById('fbComment').value,
+      chainId: Number(document.getElementById('fbChain').value),
+    }),
+  });
+  const tx = await res.json();
+  if (!res.ok) { status.textContent = tx.error; return; }
+  try {
+    if (parseInt(await window.ethereum.request({ method: 'eth_chainId' }), 16) !== tx.chainId) {
+      await window.ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x' + tx.chainId.toString(16) }] });
+    }
+    status.textContent = 'Confirm the transaction in your wallet...';
+    const hash = await window.ethereum.request({ method: 'eth_sendTransaction', params: [{ from: tx.from, to: tx.to, data: tx.data, value: tx.value }] });
+    status.textContent = 'Submitted ' + hash + ' — it will show up above once the indexer picks it up.';
+    document.getElementById('feedbackForm').reset();
+  } catch (err) {
+    status.textContent = 'Transaction not sent: ' + (err && err.message ? err.message : err);
+  }
+}
+if (addr) {
+  document.getElementById('connectBtn').addEventListener('click', connectWallet);
+  document.getElementById('feedbackForm').addEventListener('submit', submitFeedback);
+  if (window.ethereum && window.ethereum.on) {
+    window.ethereum.on('accountsChanged', (accounts) => { wallet = accounts[0] || null; showWallet(); });
+  }
+  loadCharts();
+  // Live updates for this agent only
+  const stream = new EventSource('/api/stream');
+  const mine = (fn) => (e) => { const ev = JSON.parse(e.data); if (ev.address === addr.toLowerCase()) fn(ev); };
+  const update = () => { refreshTimer = later(refreshTimer, refresh, 500); };
+  stream.addEventListener('agent.updated', mine(update));
+  stream.addEventListener('feedback.new', mine(() => { update(); loadSentiment(); }));
+  stream.addEventListener('bounty.completed', mine(() => { update(); loadCharts(); }));
+}
+`;
+
+export const COMPARE_JS = `${LIVE_JS}
+const colors = ${JSON.stringify(COMPARE_COLORS)};
+const addresses = (document.body.dataset.addresses || '').split(',').filter(Boolean);
+let reputationChart, rankChart, monthlyChart, sentimentChart, tagChart, outcomeChart, refreshTimer, chartTimer;
+const legend = {labels:{color:'#aaa'}};
+const axes = {x:{ticks:{color:'#888'}},y:{ticks:{color:'#888'},beginAtZero:true}};
+// One dataset per agent, so every chart overlays the same colours as the table swatches
+function series(c, values, extra) {
+  return c.agents.map((a, i) => Object.assign({
+    label: a.identity && a.identity.name || shortAddr(a.address),
+    data: values(a),
+    borderColor: colors[i],
+    backgroundColor: colors[i],
+  }, extra));
+}
+// Daily history points don't line up across agents; plot them against the union of dates
+function timeline(c, field) {
+  const days = [...new Set(c.agents.flatMap(a => a.history.map(p => p.timestamp.slice(0,10))))].sort();
+  const datasets = series(c, a => {
+    const byDay = new Map(a.history.map(p => [p.timestamp.slice(0,10), p[field]]));
+    return days.map(d => byDay.has(d) ? byDay.get(d) : null);
+  }, {tension:0.2, spanGaps:true});
+  return {labels: days, datasets};
+}
+async function loadCharts() {
+  const res = await fetch('/api/compare' + location.search);
+  if (!res.ok) return;
+  const c = await res.json();
+  reputationChart = chart(reputationChart, document.getElementById('reputationChart'),{type:'line',data:timeline(c,'reputation'),options:{plugins:{legend},scales:axes}});
+  rankChart = chart(rankChart, document.getElementById('rankChart'),{type:'line',data:timeline(c,'rank'),options:{plugins:{legend},scales:{x:axes.x,y:{reverse:true,ticks:{color:'#888',precision:0}}}}});
+  monthlyChart = chart(monthlyChart, document.getElementById('monthlyChart'),{type:'line',data:{labels:c.months,datasets:series(c, a => a.monthly.map(p => p.earnings), {tension:0.2})},options:{plugins:{legend},scales:axes}});
+  const names = c.agents.map(a => a.identity && a.identity.name || shortAddr(a.address));
+  sentimentChart = chart(sentimentChart, document.getElementById('sentimentChart'),{type:'bar',data:{labels:names,datasets:[
+    {label:'Positive',data:c.agents.map(a => a.sentiment.positive),backgroundColor:'#22c55e'},
+    {label:'Neutral',data:c.agents.map(a => a.sentiment.neutral),backgroundColor:'#6b7280'},
+    {label:'Negative',data:c.agents.map(a => a.sentiment.negative),backgroundColor:'#ef4444'},
+  ]},options:{plugins:{legend},scales:{x:{stacked:true,ticks:{color:'#888'}},y:{stacked:true,ticks:{color:'#888',precision:0},beginAtZero:true}}}});
+  const tags = c.tags.slice(0,8);
+  tagChart = chart(tagChart, document.getElementById('tagChart'),{type:'bar',data:{labels:tags,datasets:series(c, a => tags.map(t => a.tags[t] || 0), {borderRadius:4})},options:{plugins:{legend},scales:axes}});
+  const statuses = [...new Set(c.agents.flatMap(a => Object.keys(a.outcomes)))];
+  outcomeChart = chart(outcomeChart, document.getElementById('outcomeChart'),{type:'bar',data:{labels:statuses,datasets:series(c, a => statuses.map(s => a.outcomes[s] || 0), {borderRadius:4})},options:{plugins:{legend},scales:axes}});
+}
+if (addresses.length > 0) {
+  loadCharts();
+  // Live updates for the compared agents only
+  const stream = new EventSource('/api/stream');
+  const update = (e) => {
+    if (!addresses.includes(JSON.parse(e.data).address)) return;
+    refreshTimer = later(refreshTimer, refresh, 500);
+    chartTimer = later(chartTimer, loadCharts, 1000);
+  };
+  ['agent.updated','feedback.new','bounty.completed'].forEach(t => stream.addEventListener(t, update));
+}
+`;
@@ -0,0 +1,175 @@
+import { allAgentStats, type MonthlyPoint } from "./analytics";
+import { loadReputations } from "./db";
+import { agentHistory, type HistoryPoint } from "./history";
+import { getIdentity } from "./identity";
+import { mergeReputations } from "./reputation";
+import { getAgents } from "./sync";
+import type { AgentIdentity, AgentProfile, RiskLevel } from "./types";
+
+// --- Agent Comparison ---
+//
+// Side-by-side metrics for a shortlist of agents, with their tag and outcome
+// counts, feedback sentiment and timelines aligned on the same axes so the
+// page can overlay them. Sentiment uses every indexed feedback entry, not
+// just the ten in recentFeedback.
+
+export const MAX_COMPARE = 5;
+// One per agent slot, shared by the page's swatches and its charts
+export const COMPARE_COLORS = ["#6366f1", "#22c55e", "#eab308", "#f472b6", "#14b8a6"];
+const TIMELINE_DAYS = 90;
+
+export interface FeedbackSentiment {
+  feedbackCount: number;
+  averageScore: number | null;
+  positive: number;
+  neutral: number;
+  negative: number;
+  lastFeedbackAt: string | null;
+}
+
+export interface ComparedAgent {
+  address: string;
+  identity: AgentIdentity | null;
+  rank: number;
+  score: number;
+  onChainReputation: number;
+  totalEarnings: number;
+  netEarnings: number;
+  verifiedEarnings: number;
+  bountiesCompleted: number;
+  bountiesClaimed: number;
+  successRate: number;
+  risk: RiskLevel;
+  medianTurnaroundHours: number | null;
+  abandonmentRate: number;
+  currentStreak: number;
+  /** Claimed bounties per tag */
+  tags: Record<string, number>;
+  outcomes: Record<string, number>;
+  sentiment: FeedbackSentiment;
+  /** One point per month in Comparison.months */
+  monthly: MonthlyPoint[];
+  /** Daily snapshots over the last 90 days */
+  history: HistoryPoint[];
+}
+
+export type CompareMetricKey =
+  | "rank"
+  | "score"
+  | "onChainReputation"
+  | "totalEarnings"
+  | "netEarnings"
+  | "verifiedEarnings"
+  | "bountiesCompleted"
+  | "successRate"
+  | "medianTurnaroundHours"
+  | "abandonmentRate"
+  | "currentStreak"
+  | "averageScore";
+
+/** Metrics compared head to head, in display order; `better` says which direction wins. */
+export const COMPARE_METRICS: Array<{ key: CompareMetricKey; label: string; better: "higher" | "lower" }> = [
+  { key: "rank", label: "Rank", better: "lower" },
+  { key: "score", label: "Composite score", better: "higher" },
+  { key: "onChainReputation", label: "On-chain reputation", better: "higher" },
+  { key: "totalEarnings", label: "Earnings (gross)", better: "higher" },
+  { key: "netEarnings", label: "Earnings (net)", better: "higher" },
+  { key: "verifiedEarnings", label: "Verified payouts", better: "higher" },
+  { key: "bountiesCompleted", label: "Completed", better: "higher" },
+  { key: "successRate", label: "Success rate", better: "higher" },
+  { key: "medianTurnaroundHours", label: "Median time to complete", better: "lower" },
+  { key: "abandonmentRate", label: "Abandonment rate", better: "lower" },
+  { key: "currentStreak", label: "Active streak (weeks)", better: "higher" },
+  { key: "averageScore", label: "Average feedback score", better: "higher" },
+];
+
+export interface Comparison {
+  agents: ComparedAgent[];
+  /** Address leading each metric; null when no agent has a value or all are tied */
+  leaders: Record<CompareMetricKey, string | null>;
+  /** Every tag any of the agents claimed, busiest first */
+  tags: string[];
+  /** YYYY-MM, the union of the agents' active months through the current one */
+  months: string[];
+}
+
+export const metricValue = (a: ComparedAgent, key: CompareMetricKey): number | null =>
+  key === "averageScore" ? a.sentiment.averageScore : a[key];
+
+function sentiment(feedback: Array<{ score: number; timestamp: number }>): FeedbackSentiment {
+  const total = feedback.reduce((s, f) => s + f.score, 0);
+  const last = feedback.reduce((max, f) => Math.max(max, f.timestamp), 0);
+  return {
+    feedbackCount: feedback.length,
+    averageScore: feedback.length > 0 ? Math.round((total / feedback.length) * 100) / 100 : null,
+    positive: feedback.filter((f) => f.score > 0).length,
+    neutral: feedback.filter((f) => f.score === 0).length,
+    negative: feedback.filter((f) => f.score < 0).length,
+    lastFeedbackAt: last > 0 ? new Date(last * 1000).toISOString() : null,
+  };
+}
+
+function leader(agents: ComparedAgent[], key: CompareMetricKey, better: "higher" | "lower"): string | null {
+  const scored = agents.filter((a) => metricValue(a, key) !== null);
+  if (scored.length === 0) return null;
+  const sign = better === "higher" ? 1 : -1;
+  const best = Math.max(...scored.map((a) => sign * metricValue(a, key)!));
+  const top = scored.filter((a) => sign * metricValue(a, key)! === best);
+  return top.length === 1 ? top[0].address : null;
+}
+
+/**
+ * Compares agents on the default leaderboard. Returns the addresses that
+ * aren't on it as an error, so a typo doesn't silently drop a candidate.
+ */
+export async function compareAgents(addresses: string[]): Promise<Comparison | { error: string }> {
+  const agents = await getAgents();
+  const byAddress = new Map(agents.map((a) => [a.address.toLowerCase(), a]));
+  const missing = addresses.filter((a) => !byAddress.has(a.toLowerCase()));
+  if (missing.length > 0) return { error: `Agent not found: ${missing.join(", ")}` };
+
+  const feedback = mergeReputations(loadReputations());
+  const now = Date.now();
+  const profiles = addresses.map((a) => byAddress.get(a.toLowerCase())!);
+  // One read of bounties and status history for every compared agent
+  const allStats = allAgentStats(now);
+  const stats = new Map(profiles.map((p) => [p.address, allStats.get(p.address.toLowerCase()) ?? null]));
+
+  const months = [...new Set(profiles.flatMap((p) => stats.get(p.address)?.monthly.map((m) => m.month) ?? []))].sort();
+  const tagTotals = new Map<string, number>();
+  for (const p of profiles) for (const [tag, n] of Object.entries(p.tags)) tagTotals.set(tag, (tagTotals.get(tag) ?? 0) + n);
+
+  const compared = profiles.map((p: AgentProfile): ComparedAgent => {
+    const s = stats.get(p.address);
+    const monthly = new Map(s?.monthly.map((m) => [m.month, m]));
+    return {
+      address: p.address,
+      identity: getIdentity(p.address) ?? p.identity,
+      rank: p.rank,
+      score: p.score,
+      onChainReputation: p.onChainReputation,
+      totalEarnings: p.totalEarnings,
+      netEarnings: p.netEarnings,
+      verifiedEarnings: p.verifiedEarnings,
+      bountiesCompleted: p.bountiesCompleted,
+      bountiesClaimed: p.bountiesClaimed,
+      successRate: p.successRate,
+      risk: p.risk.level,
+      medianTurnaroundHours: s?.turnaround.medianHours ?? null,
+      abandonmentRate: s?.abandonmentRate ?? 0,
+      currentStreak: s?.streaks.current ?? 0,
+      tags: p.tags,
+      outcomes: p.outcomes,
+      sentiment: sentiment(feedback.get(p.address.toLowerCase())?.feedback ?? []),
+      monthly: months.map((month) => monthly.get(month) ?? { month, completions: 0, earnings: 0, netEarnings: 0 }),
+      history: agentHistory(p.address, now - TIMELINE_DAYS * 86_400_000, now, "day"),
+    };
+  });
+
+  return {
+    agents: compared,
+    leaders: Object.fromEntries(COMPARE_METRICS.map((m) => [m.key, leader(compared, m.key, m.better)])) as Comparison["leaders"],
+    tags: [...tagTotals.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag),
+    months,
+  };
+}
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title MockReputationRegistry
+/// @notice Stand-in ERC-8004 reputation registry for local anvil nodes. It
+/// implements the reads and the feedback write in REPUTATION_ABI (chain.ts)
+/// and emits the FeedbackGiven event the indexer follows. Unlike a real
+/// registry it checks nothing about who rates whom, so seeds can set up
+/// self-rating and rating rings for the risk checks; `register` lists an
+/// agent without any feedback.
+contract MockReputationRegistry {
+    struct Feedback {
+        address from;
+        int8 score;
+        string comment;
+        uint256 timestamp;
+    }
+
+    int8 public constant SCORE_MIN = -10;
+    int8 public constant SCORE_MAX = 10;
+
+    event AgentRegistered(address indexed agent);
+    event FeedbackGiven(address indexed agent, address indexed from, int8 score, string comment, uint256 timestamp);
+
+    address[] private agents;
+    mapping(address => bool) public registered;
+    mapping(address => Feedback[]) private feedback;
+    /// Sum of every score, floored at zero
+    mapping(address => uint256) private reputation;
+    /// Sum of the positive scores only; never goes down
+    mapping(address => uint256) private positive;
+
+    function register(address agent) public {
+        if (registered[agent]) return;
+        registered[agent] = true;
+        agents.push(agent);
+        emit AgentRegistered(agent);
+    }
+
+    function giveFeedback(address agent, int8 score, string calldata comment) external {
+        require(score >= SCORE_MIN && score <= SCORE_MAX, "score out of range");
+        register(agent);
+
+        feedback[agent].push(Feedback(msg.sender, score, comment, block.timestamp));
+        if (score > 0) {
+            uint256 gain = uint256(int256(score));
+            reputation[agent] += gain;
+            positive[agent] += gain;
+        } else {
+            uint256 loss = uint256(-int256(score));
+            reputation[agent] = reputation[agent] > loss ? reputation[agent] - loss : 0;
+        }
+        emit FeedbackGiven(agent, msg.sender, score, comment, block.timestamp);
+    }
+
+    function getReputation(address agent) external view returns (uint256) {
+        return reputation[agent];
+    }
+
+    function totalReputation(address agent) external view returns (uint256) {
+        return positive[agent];
+    }
+
+    function getFeedback(address agent) external view returns (Feedback[] memory) {
+        return feedback[agent];
+    }
+
+    function getAgentCount() external view returns (uint256) {
+        return agents.length;
+    }
+
+    function getAgentByIndex(uint256 index) external view returns (address) {
+        require(index < agents.length, "index out of range");
+        return agents[index];
+    }
+}
@@ -0,0 +1,155 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fetchBounties } from "./bounties";
+import type { RegistryChain } from "./chain";
+import { fetchAllOnChainAgents, fetchOnChainReputation, fetchOnChainReputations } from "./reputation";
+import type { Bounty, OnChainReputation } from "./types";
+
+// --- Data Sources ---
+//
+// Upstream reads (the bounty API, registry enumeration and reputation
+// lookups) go through the source picked with DATA_SOURCE:
+//   live   - the bounty API and each chain's RPCs
+//   record - live, with every result also written under FIXTURES_DIR
+//   replay - FIXTURES_DIR only; the bounty API and registries are never called
+// Replay runs the dashboard offline against a recorded session, for tests
+// and demos.
+
+export type DataSourceMode = "live" | "record" | "replay";
+
+export const DATA_SOURCE_MODES: DataSourceMode[] = ["live", "record", "replay"];
+
+const MODE = (process.env.DATA_SOURCE || "live") as DataSourceMode;
+const FIXTURES_DIR = process.env.FIXTURES_DIR || join(import.meta.dir, "fixtures");
+
+if (!DATA_SOURCE_MODES.includes(MODE)) {
+  throw new Error(`DATA_SOURCE must be one of: ${DATA_SOURCE_MODES.join(", ")} (got "${MODE}")`);
+}
+
+export interface DataSource {
+  mode: DataSourceMode;
+  fetchBounties(): Promise<{ bounties: Bounty[]; full: boolean }>;
+  fetchAllOnChainAgents(chain: RegistryChain): Promise<Map<string, OnChainReputation>>;
+  fetchOnChainReputations(chain: RegistryChain, addresses: string[]): Promise<OnChainReputation[]>;
+  fetchOnChainReputation(chain: RegistryChain, address: string): Promise<OnChainReputation>;
+}
+
+// --- Fixtures ---
+//
+// bounties.json holds every bounty seen, by id; reputation/<chain key>.json
+// holds what the registry walk returned and every reputation read on that
+// chain. Recording adds to existing fixtures rather than replacing them.
+
+interface ChainFixture {
+  chainId: number;
+  /** Lowercased addresses returned by the last registry walk */
+  enumerated: string[];
+  /** Latest reputation read, by lowercased address */
+  reputations: Record<string, OnChainReputation>;
+}
+
+const bountiesPath = join(FIXTURES_DIR, "bounties.json");
+const chainPath = (chain: RegistryChain) => join(FIXTURES_DIR, "reputation", `${chain.key}.json`);
+
+// Each file is read once; recording updates it in memory and writes it back whole
+const fixtures = new Map<string, unknown>();
+
+function fixture<T>(path: string, empty: () => T): T {
+  if (!fixtures.has(path)) {
+    fixtures.set(path, existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : empty());
+  }
+  return fixtures.get(path) as T;
+}
+
+function writeFixture(path: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(fixtures.get(path), null, 2) + "\n");
+}
+
+const bountyFixture = () => fixture<Bounty[]>(bountiesPath, () => []);
+const chainFixture = (chain: RegistryChain) =>
+  fixture<ChainFixture>(chainPath(chain), () => ({ chainId: chain.chainId, enumerated: [], reputations: {} }));
+
+function recordReputations(chain: RegistryChain, reps: Iterable<OnChainReputation>): void {
+  const { reputations } = chainFixture(chain);
+  for (const rep of reps) reputations[rep.address.toLowerCase()] = rep;
+  writeFixture(chainPath(chain));
+}
+
+// --- Sources ---
+
+const live: DataSource = {
+  mode: "live",
+  fetchBounties,
+  fetchAllOnChainAgents,
+  fetchOnChainReputations,
+  fetchOnChainReputation,
+};
+
+const record: DataSource = {
+  mode: "record",
+  async fetchBounties() {
+    const result = await live.fetchBounties();
+    // Incremental fetches only carry changed bounties, so merge them into what was recorded before
+    const byId = new Map(bountyFixture().map((b) => [b.id, b]));
+    for (const b of result.bounties) byId.set(b.id, b);
+    fixtures.set(bountiesPath, [...byId.values()]);
+    writeFixture(bountiesPath);
+    return result;
+  },
+  async fetchAllOnChainAgents(chain) {
+    const agents = await live.fetchAllOnChainAgents(chain);
+    chainFixture(chain).enumerated = [...agents.keys()];
+    recordReputations(chain, agents.values());
+    return agents;
+  },
+  async fetchOnChainReputations(chain, addresses) {
+    const reps = await live.fetchOnChainReputations(chain, addresses);
+    recordReputations(chain, reps);
+    return reps;
+  },
+  async fetchOnChainReputation(chain, address) {
+    const rep = await live.fetchOnChainReputation(chain, address);
+    recordReputations(chain, [rep]);
+    return rep;
+  },
+};
+
+// Replayed values are copies, so callers can't change the fixtures under later reads
+const replay: DataSource = {
+  mode: "replay",
+  async fetchBounties() {
+    if (!existsSync(bountiesPath)) throw new Error(`No recorded bounties at ${bountiesPath}`);
+    return { bounties: structuredClone(bountyFixture()), full: true };
+  },
+  async fetchAllOnChainAgents(chain) {
+    const { enumerated, reputations } = chainFixture(chain);
+    return new Map(
+      enumerated.map((addr) => [
+        addr,
+        structuredClone(reputations[addr]) ?? { chainId: chain.chainId, address: addr, reputationScore: 0, feedback: [] },
+      ])
+    );
+  },
+  async fetchOnChainReputations(chain, addresses) {
+    const { reputations } = chainFixture(chain);
+    return addresses.flatMap((addr) => {
+      const rep = reputations[addr.toLowerCase()];
+      return rep ? [structuredClone(rep)] : [];
+    });
+  },
+  // Addresses that were never read replay as having no reputation, like an unregistered agent does live
+  async fetchOnChainReputation(chain, address) {
+    const rep = chainFixture(chain).reputations[address.toLowerCase()];
+    return rep ? structuredClone(rep) : { chainId: chain.chainId, address, reputationScore: 0, feedback: [] };
+  },
+};
+
+export const dataSource: DataSource = { live, record, replay }[MODE];
+
+/** Replay runs without RPCs: the indexer, payout verifier, identity resolver and token metadata reads stay off. */
+export const offline = MODE === "replay";
+
+export function dataSourceStatus() {
+  return { mode: MODE, fixtures: MODE === "live" ? null : FIXTURES_DIR };
+}
@@ -0,0 +1,578 @@
+import { Database } from "bun:sqlite";
+import type { AgentIdentity, AgentProfile, Bounty, FeedbackEntry, OnChainReputation, TokenTransfer } from "./types";
+
+// --- SQLite Storage ---
+//
+// Bounties and on-chain reputation are stored as JSON blobs keyed by id/address
+// so the schema doesn't have to chase upstream shape changes. Snapshots keep
+// the ranking metrics in columns for time-series queries.
+
+const DB_PATH = process.env.DB_PATH || "reputation.db";
+
+export const db = new Database(DB_PATH, { create: true });
+
+db.exec("PRAGMA journal_mode = WAL");
+
+// Stores written before multi-chain support keyed reputations by address alone;
+// move them aside so the table can be recreated with a chain column
+const LEGACY_CHAIN_ID = 8453;
+const reputationColumns = db.query("PRAGMA table_info(reputations)").all() as Array<{ name: string }>;
+const legacyReputations = reputationColumns.length > 0 && !reputationColumns.some((c) => c.name === "chain_id");
+if (legacyReputations) db.exec("ALTER TABLE reputations RENAME TO reputations_legacy");
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS bounties (
+    id TEXT PRIMARY KEY,
+    claimed_by TEXT,
+    status TEXT,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS bounties_claimed_by ON bounties (claimed_by);
+
+  -- Every status or claimer change seen by the sync; upstream only reports the current state
+  CREATE TABLE IF NOT EXISTS bounty_status_history (
+    bounty_id TEXT NOT NULL,
+    status TEXT,
+    claimed_by TEXT,
+    changed_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS bounty_status_history_bounty ON bounty_status_history (bounty_id, changed_at);
+
+  CREATE TABLE IF NOT EXISTS reputations (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    reputation_score INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  );
+
+  -- FeedbackGiven logs seen by the indexer, so a restart resumes instead of backfilling again
+  CREATE TABLE IF NOT EXISTS indexed_feedback (
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    agent TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    comment TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS indexed_feedback_order ON indexed_feedback (chain_id, block_number, log_index);
+
+  CREATE TABLE IF NOT EXISTS indexer_state (
+    chain_id INTEGER PRIMARY KEY,
+    deploy_block INTEGER,
+    last_block INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS agent_snapshots (
+    taken_at INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    rank INTEGER NOT NULL,
+    on_chain_reputation INTEGER NOT NULL,
+    total_earnings REAL NOT NULL,
+    bounties_completed INTEGER NOT NULL,
+    bounties_claimed INTEGER NOT NULL,
+    success_rate INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (taken_at, address)
+  );
+  CREATE INDEX IF NOT EXISTS agent_snapshots_address ON agent_snapshots (address, taken_at);
+
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT NOT NULL,
+    addresses TEXT NOT NULL,
+    top_n INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    owner TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    subscription_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    next_attempt_at INTEGER,
+    delivered_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_pending ON webhook_deliveries (status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_subscription ON webhook_deliveries (subscription_id, id);
+
+  CREATE TABLE IF NOT EXISTS token_transfers (
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    token TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_time INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS token_transfers_to ON token_transfers (to_address, block_time);
+
+  CREATE TABLE IF NOT EXISTS transfer_scans (
+    chain_id INTEGER NOT NULL,
+    token TEXT NOT NULL,
+    address TEXT NOT NULL,
+    last_block INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, token, address)
+  );
+
+  CREATE TABLE IF NOT EXISTS identities (
+    address TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    resolved_at INTEGER NOT NULL
+  );
+
+  -- Requests per API key per UTC day, for metering
+  CREATE TABLE IF NOT EXISTS api_usage (
+    key_name TEXT NOT NULL,
+    day TEXT NOT NULL,
+    requests INTEGER NOT NULL,
+    rate_limited INTEGER NOT NULL,
+    PRIMARY KEY (key_name, day)
+  );
+`);
+
+// Subscriptions made before they were owned by an API key have no owner; only the worker still sees them
+const subscriptionColumns = db.query("PRAGMA table_info(subscriptions)").all() as Array<{ name: string }>;
+if (!subscriptionColumns.some((c) => c.name === "owner")) db.exec("ALTER TABLE subscriptions ADD COLUMN owner TEXT");
+
+if (legacyReputations) {
+  // Every legacy row came from the Base registry
+  db.exec(`
+    INSERT OR IGNORE INTO reputations (chain_id, address, reputation_score, data, updated_at)
+      SELECT ${LEGACY_CHAIN_ID}, address, reputation_score, json_set(data, '$.chainId', ${LEGACY_CHAIN_ID}), updated_at
+      FROM reputations_legacy;
+    DROP TABLE reputations_legacy;
+  `);
+}
+
+const upsertBounty = db.prepare(
+  `INSERT INTO bounties (id, claimed_by, status, data, updated_at) VALUES (?, ?, ?, ?, ?)
+   ON CONFLICT (id) DO UPDATE SET claimed_by = excluded.claimed_by, status = excluded.status,
+     data = excluded.data, updated_at = excluded.updated_at`
+);
+
+const upsertReputation = db.prepare(
+  `INSERT INTO reputations (chain_id, address, reputation_score, data, updated_at) VALUES (?, ?, ?, ?, ?)
+   ON CONFLICT (chain_id, address) DO UPDATE SET reputation_score = excluded.reputation_score,
+     data = excluded.data, updated_at = excluded.updated_at`
+);
+
+const insertSnapshot = db.prepare(
+  `INSERT OR REPLACE INTO agent_snapshots (taken_at, address, rank, on_chain_reputation, total_earnings,
+     bounties_completed, bounties_claimed, success_rate, data)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+);
+
+const selectBountyState = db.prepare("SELECT status, claimed_by FROM bounties WHERE id = ?");
+const insertStatusChange = db.prepare(
+  "INSERT INTO bounty_status_history (bounty_id, status, claimed_by, changed_at) VALUES (?, ?, ?, ?)"
+);
+
+export const saveBounties = db.transaction((bounties: Bounty[]) => {
+  const now = Date.now();
+  for (const b of bounties) {
+    const id = String(b.id);
+    const claimedBy = b.claimedBy?.toLowerCase() ?? null;
+    const before = selectBountyState.get(id) as { status: string; claimed_by: string | null } | null;
+    if (!before || before.status !== b.status || before.claimed_by !== claimedBy) {
+      insertStatusChange.run(id, b.status, claimedBy, now);
+    }
+    upsertBounty.run(id, claimedBy, b.status, JSON.stringify(b), now);
+  }
+});
+
+export interface StatusChange {
+  bountyId: string;
+  status: string;
+  /** Lowercased */
+  claimedBy: string | null;
+  changedAt: number;
+}
+
+/** Status and claimer changes for every bounty, oldest first. */
+export function loadStatusHistory(): StatusChange[] {
+  const rows = db
+    .query("SELECT bounty_id, status, claimed_by, changed_at FROM bounty_status_history ORDER BY changed_at, rowid")
+    .all() as Array<{ bounty_id: string; status: string; claimed_by: string | null; changed_at: number }>;
+  return rows.map((r) => ({ bountyId: r.bounty_id, status: r.status, claimedBy: r.claimed_by, changedAt: r.changed_at }));
+}
+
+/** When any bounty was last written, or null on an empty store. */
+export function lastBountyUpdate(): number | null {
+  const row = db.query("SELECT MAX(updated_at) AS t FROM bounties").get() as { t: number | null };
+  return row.t;
+}
+
+export function loadBounties(): Bounty[] {
+  const rows = db.query("SELECT data FROM bounties").all() as Array<{ data: string }>;
+  return rows.map((r) => JSON.parse(r.data) as Bounty);
+}
+
+export const saveReputations = db.transaction((reps: Iterable<OnChainReputation>) => {
+  const now = Date.now();
+  for (const rep of reps) {
+    upsertReputation.run(rep.chainId, rep.address.toLowerCase(), rep.reputationScore, JSON.stringify(rep), now);
+  }
+});
+
+/** Per-chain reputation records; see mergeReputations() for the cross-chain view. */
+export function loadReputations(): OnChainReputation[] {
+  const rows = db.query("SELECT data FROM reputations").all() as Array<{ data: string }>;
+  return rows.map((r) => JSON.parse(r.data) as OnChainReputation);
+}
+
+/** Records the ranked leaderboard as of `takenAt`. Bounty history is left out; it lives in `bounties`. */
+export const saveSnapshot = db.transaction((agents: AgentProfile[], takenAt: number) => {
+  for (const a of agents) {
+    const { history: _history, ...profile } = a;
+    insertSnapshot.run(
+      takenAt,
+      a.address.toLowerCase(),
+      a.rank,
+      a.onChainReputation,
+      a.totalEarnings,
+      a.bountiesCompleted,
+      a.bountiesClaimed,
+      a.successRate,
+      JSON.stringify(profile)
+    );
+  }
+});
+
+export interface SnapshotRow {
+  taken_at: number;
+  rank: number;
+  on_chain_reputation: number;
+  total_earnings: number;
+  bounties_completed: number;
+  success_rate: number;
+}
+
+/** One agent's snapshot rows within [from, to], oldest first. */
+export function loadAgentSnapshots(address: string, from: number, to: number): SnapshotRow[] {
+  return db
+    .query(
+      `SELECT taken_at, rank, on_chain_reputation, total_earnings, bounties_completed, success_rate
+       FROM agent_snapshots WHERE address = ? AND taken_at BETWEEN ? AND ? ORDER BY taken_at`
+    )
+    .all(address.toLowerCase(), from, to) as SnapshotRow[];
+}
+
+/** Ranks from the most recent snapshot taken at or before `at`, keyed by lowercased address. */
+export function loadRanksAsOf(at: number): Map<string, number> {
+  const rows = db
+    .query(
+      `SELECT address, rank FROM agent_snapshots
+       WHERE taken_at = (SELECT MAX(taken_at) FROM agent_snapshots WHERE taken_at <= ?)`
+    )
+    .all(at) as Array<{ address: string; rank: number }>;
+  return new Map(rows.map((r) => [r.address, r.rank]));
+}
+
+export function lastSnapshotTime(): number {
+  const row = db.query("SELECT MAX(taken_at) AS t FROM agent_snapshots").get() as { t: number | null };
+  return row.t ?? 0;
+}
+
+export function storeCounts() {
+  const count = (table: string) =>
+    (db.query(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+  return {
+    bounties: count("bounties"),
+    reputations: (db.query("SELECT COUNT(DISTINCT address) AS n FROM reputations").get() as { n: number }).n,
+    snapshots: (db.query("SELECT COUNT(DISTINCT taken_at) AS n FROM agent_snapshots").get() as { n: number }).n,
+  };
+}
+
+// --- Feedback Index ---
+
+export interface IndexedLog {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  /** Lowercased */
+  agent: string;
+  entry: FeedbackEntry;
+}
+
+export interface IndexerState {
+  deployBlock: number | null;
+  lastBlock: number | null;
+}
+
+const insertIndexedFeedback = db.prepare(
+  `INSERT OR IGNORE INTO indexed_feedback (chain_id, tx_hash, log_index, block_number, agent, from_address, score,
+     comment, timestamp)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+);
+const upsertIndexerState = db.prepare(
+  `INSERT INTO indexer_state (chain_id, deploy_block, last_block) VALUES (?, ?, ?)
+   ON CONFLICT (chain_id) DO UPDATE SET deploy_block = excluded.deploy_block, last_block = excluded.last_block`
+);
+
+/** Stores a range's logs together with the block the indexer got to, so progress never runs ahead of the data. */
+export const saveIndexedLogs = db.transaction((chainId: number, logs: IndexedLog[], state: IndexerState) => {
+  for (const l of logs) {
+    insertIndexedFeedback.run(
+      chainId,
+      l.txHash,
+      l.logIndex,
+      l.blockNumber,
+      l.agent,
+      l.entry.from,
+      l.entry.score,
+      l.entry.comment,
+      l.entry.timestamp
+    );
+  }
+  upsertIndexerState.run(chainId, state.deployBlock, state.lastBlock);
+});
+
+/** Every indexed log on a chain, in chain order. */
+export function loadIndexedLogs(chainId: number): IndexedLog[] {
+  const rows = db
+    .query("SELECT * FROM indexed_feedback WHERE chain_id = ? ORDER BY block_number, log_index")
+    .all(chainId) as Array<{
+    tx_hash: string;
+    log_index: number;
+    block_number: number;
+    agent: string;
+    from_address: string;
+    score: number;
+    comment: string;
+    timestamp: number;
+  }>;
+  return rows.map((r) => ({
+    txHash: r.tx_hash,
+    logIndex: r.log_index,
+    blockNumber: r.block_number,
+    agent: r.agent,
+    entry: { from: r.from_address, score: r.score, comment: r.comment, timestamp: r.timestamp },
+  }));
+}
+
+export function loadIndexerState(chainId: number): IndexerState {
+  const row = db.query("SELECT deploy_block, last_block FROM indexer_state WHERE chain_id = ?").get(chainId) as {
+    deploy_block: number | null;
+    last_block: number | null;
+  } | null;
+  return { deployBlock: row?.deploy_block ?? null, lastBlock: row?.last_block ?? null };
+}
+
+// --- Webhook Subscriptions ---
+
+export interface SubscriptionRow {
+  id: string;
+  url: string;
+  secret: string;
+  events: string;
+  addresses: string;
+  top_n: number;
+  created_at: number;
+  /** Name of the API key that created it */
+  owner: string | null;
+}
+
+export interface DeliveryRow {
+  id: number;
+  subscription_id: string;
+  event_type: string;
+  payload: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: number;
+  next_attempt_at: number | null;
+  delivered_at: number | null;
+}
+
+export function insertSubscription(row: SubscriptionRow): void {
+  db.prepare(
+    `INSERT INTO subscriptions (id, url, secret, events, addresses, top_n, created_at, owner)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(row.id, row.url, row.secret, row.events, row.addresses, row.top_n, row.created_at, row.owner);
+}
+
+/** Every subscription, or only those created with the `owner` API key. */
+export function loadSubscriptions(owner?: string): SubscriptionRow[] {
+  if (owner === undefined) return db.query("SELECT * FROM subscriptions ORDER BY created_at").all() as SubscriptionRow[];
+  return db.query("SELECT * FROM subscriptions WHERE owner = ? ORDER BY created_at").all(owner) as SubscriptionRow[];
+}
+
+export function loadSubscription(id: string): SubscriptionRow | null {
+  return (db.query("SELECT * FROM subscriptions WHERE id = ?").get(id) as SubscriptionRow) ?? null;
+}
+
+/** Removes a subscription and its delivery log; returns false if it didn't exist. */
+export const deleteSubscription = db.transaction((id: string): boolean => {
+  db.prepare("DELETE FROM webhook_deliveries WHERE subscription_id = ?").run(id);
+  return db.prepare("DELETE FROM subscriptions WHERE id = ?").run(id).changes > 0;
+});
+
+export function enqueueDelivery(subscriptionId: string, eventType: string, payload: string): void {
+  const now = Date.now();
+  db.prepare(
+    `INSERT INTO webhook_deliveries (subscription_id, event_type, payload, status, created_at, next_attempt_at)
+     VALUES (?, ?, ?, 'pending', ?, ?)`
+  ).run(subscriptionId, eventType, payload, now, now);
+}
+
+export function loadDueDeliveries(now: number, limit: number): DeliveryRow[] {
+  return db
+    .query(
+      `SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at LIMIT ?`
+    )
+    .all(now, limit) as DeliveryRow[];
+}
+
+export function updateDelivery(
+  id: number,
+  fields: Pick<DeliveryRow, "status" | "attempts" | "response_status" | "error" | "next_attempt_at" | "delivered_at">
+): void {
+  db.prepare(
+    `UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, error = ?,
+       next_attempt_at = ?, delivered_at = ? WHERE id = ?`
+  ).run(
+    fields.status,
+    fields.attempts,
+    fields.response_status,
+    fields.error,
+    fields.next_attempt_at,
+    fields.delivered_at,
+    id
+  );
+}
+
+export function loadDeliveries(subscriptionId: string, limit: number): DeliveryRow[] {
+  return db
+    .query("SELECT * FROM webhook_deliveries WHERE subscription_id = ? ORDER BY id DESC LIMIT ?")
+    .all(subscriptionId, limit) as DeliveryRow[];
+}
+
+// --- Payout Transfers ---
+
+const insertTransfer = db.prepare(
+  `INSERT OR IGNORE INTO token_transfers (chain_id, tx_hash, log_index, token, from_address, to_address, value,
+     block_number, block_time)
+   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+);
+
+export const saveTransfers = db.transaction((transfers: TokenTransfer[]) => {
+  for (const t of transfers) {
+    insertTransfer.run(
+      t.chainId,
+      t.txHash,
+      t.logIndex,
+      t.token.toLowerCase(),
+      t.from.toLowerCase(),
+      t.to.toLowerCase(),
+      t.value,
+      t.blockNumber,
+      t.blockTime
+    );
+  }
+});
+
+/** Every stored transfer, oldest first. */
+export function loadTransfers(): TokenTransfer[] {
+  const rows = db
+    .query("SELECT * FROM token_transfers ORDER BY block_number, log_index")
+    .all() as Array<{
+    chain_id: number;
+    tx_hash: string;
+    log_index: number;
+    token: string;
+    from_address: string;
+    to_address: string;
+    value: string;
+    block_number: number;
+    block_time: number;
+  }>;
+  return rows.map((r) => ({
+    chainId: r.chain_id,
+    txHash: r.tx_hash,
+    logIndex: r.log_index,
+    token: r.token,
+    from: r.from_address,
+    to: r.to_address,
+    value: r.value,
+    blockNumber: r.block_number,
+    blockTime: r.block_time,
+  }));
+}
+
+/** Last block scanned for transfers of `token` into `address`, or null if never scanned. */
+export function transferScanBlock(chainId: number, token: string, address: string): number | null {
+  const row = db
+    .query("SELECT last_block FROM transfer_scans WHERE chain_id = ? AND token = ? AND address = ?")
+    .get(chainId, token.toLowerCase(), address.toLowerCase()) as { last_block: number } | null;
+  return row?.last_block ?? null;
+}
+
+export function setTransferScanBlock(chainId: number, token: string, address: string, block: number): void {
+  db.query(
+    `INSERT INTO transfer_scans (chain_id, token, address, last_block) VALUES (?, ?, ?, ?)
+     ON CONFLICT (chain_id, token, address) DO UPDATE SET last_block = excluded.last_block`
+  ).run(chainId, token.toLowerCase(), address.toLowerCase(), block);
+}
+
+// --- Identities ---
+
+export function saveIdentity(identity: AgentIdentity): void {
+  db.query(
+    `INSERT INTO identities (address, data, resolved_at) VALUES (?, ?, ?)
+     ON CONFLICT (address) DO UPDATE SET data = excluded.data, resolved_at = excluded.resolved_at`
+  ).run(identity.address.toLowerCase(), JSON.stringify(identity), Date.parse(identity.resolvedAt));
+}
+
+export function loadIdentities(): AgentIdentity[] {
+  const rows = db.query("SELECT data FROM identities").all() as Array<{ data: string }>;
+  return rows.map((r) => JSON.parse(r.data) as AgentIdentity);
+}
+
+// --- API Usage ---
+
+export interface ApiUsageRow {
+  keyName: string;
+  /** YYYY-MM-DD, UTC */
+  day: string;
+  requests: number;
+  rateLimited: number;
+}
+
+export const addApiUsage = db.transaction((rows: ApiUsageRow[]) => {
+  const upsert = db.query(
+    `INSERT INTO api_usage (key_name, day, requests, rate_limited) VALUES (?, ?, ?, ?)
+     ON CONFLICT (key_name, day) DO UPDATE SET
+       requests = requests + excluded.requests, rate_limited = rate_limited + excluded.rate_limited`
+  );
+  for (const r of rows) upsert.run(r.keyName, r.day, r.requests, r.rateLimited);
+});
+
+export function loadApiUsage(keyName: string, fromDay: string): ApiUsageRow[] {
+  return db
+    .query(
+      `SELECT key_name AS keyName, day, requests, rate_limited AS rateLimited
+       FROM api_usage WHERE key_name = ? AND day >= ? ORDER BY day`
+    )
+    .all(keyName, fromDay) as ApiUsageRow[];
+}
@@ -0,0 +1,336 @@
+import { getAddress, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { allAgentStats, type AgentStats } from "./analytics";
+import { CHAINS } from "./chain";
+import { getAgents } from "./sync";
+import type { AgentProfile } from "./types";
+
+// --- Bounty Eligibility ---
+//
+// Checks agents against a bounty's reputation requirements and signs the
+// outcome as EIP-712 typed data. The bounty board verifies the signature
+// offline against the signer published at /api/eligibility/signer; the
+// signed message repeats the requirements, so it can't be replayed for a
+// stricter bounty.
+
+const ATTESTATION_KEY = process.env.ATTESTATION_PRIVATE_KEY || "";
+const ATTESTATION_TTL = parseInt(process.env.ATTESTATION_TTL_MS || "3600000", 10);
+const ATTESTATION_CHAIN_ID = parseInt(process.env.ATTESTATION_CHAIN_ID || String(CHAINS[0].chainId), 10);
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+const MAX_AGENTS = 500;
+const MAX_TAGS = 20;
+
+if (ATTESTATION_KEY && !/^0x[0-9a-fA-F]{64}$/.test(ATTESTATION_KEY)) {
+  throw new Error("ATTESTATION_PRIVATE_KEY must be a 0x-prefixed 32-byte hex key");
+}
+// Both end up in every signed message, where NaN would make each signing fail
+if (!/^\d+$/.test(process.env.ATTESTATION_TTL_MS || "0") || ATTESTATION_TTL <= 0) {
+  throw new Error("ATTESTATION_TTL_MS must be a positive number of milliseconds");
+}
+if (!Number.isSafeInteger(ATTESTATION_CHAIN_ID) || ATTESTATION_CHAIN_ID <= 0) {
+  throw new Error("ATTESTATION_CHAIN_ID must be a positive integer");
+}
+const signer = ATTESTATION_KEY ? privateKeyToAccount(ATTESTATION_KEY as Hex) : null;
+
+export const ELIGIBILITY_DOMAIN = {
+  name: "Agent Reputation Eligibility",
+  version: "1",
+  chainId: ATTESTATION_CHAIN_ID,
+} as const;
+
+// Unset requirements are signed as their no-op values: 0 minimums and a 100% (10000 bps) abandonment ceiling.
+// Integers are at most 48 bits wide so the message stays plain JSON numbers (times are Unix seconds).
+export const ELIGIBILITY_TYPES = {
+  TagRequirement: [
+    { name: "tag", type: "string" },
+    { name: "minCompleted", type: "uint32" },
+  ],
+  Requirements: [
+    { name: "minReputation", type: "uint48" },
+    { name: "minCompleted", type: "uint32" },
+    { name: "minCompletedByTag", type: "TagRequirement[]" },
+    { name: "maxAbandonmentBps", type: "uint16" },
+    { name: "noRiskFlags", type: "bool" },
+  ],
+  EligibilityAttestation: [
+    { name: "bountyId", type: "string" },
+    { name: "requirements", type: "Requirements" },
+    { name: "qualified", type: "address[]" },
+    { name: "issuedAt", type: "uint48" },
+    { name: "expiresAt", type: "uint48" },
+  ],
+} as const;
+
+export interface EligibilityRequirements {
+  minReputation: number | null;
+  minCompleted: number | null;
+  /** Minimum completed bounties carrying each tag */
+  minCompletedByTag: Record<string, number>;
+  /** Highest share of claims abandoned, in percent */
+  maxAbandonmentRate: number | null;
+  noRiskFlags: boolean;
+}
+
+export interface EligibilityRequest {
+  bountyId: string;
+  requirements: EligibilityRequirements;
+  /** Agents to check; every ranked agent when null */
+  agents: string[] | null;
+}
+
+export interface CriterionResult {
+  criterion: "minReputation" | "minCompleted" | "minCompletedByTag" | "maxAbandonmentRate" | "noRiskFlags";
+  tag?: string;
+  required: number | boolean;
+  actual: number | string[];
+  pass: boolean;
+  reason: string;
+}
+
+export interface AgentEligibility {
+  address: string;
+  rank: number | null;
+  eligible: boolean;
+  criteria: CriterionResult[];
+  /** Why an agent was not checked at all */
+  reason?: string;
+}
+
+export interface EligibilityAttestation {
+  signer: string;
+  domain: typeof ELIGIBILITY_DOMAIN;
+  types: typeof ELIGIBILITY_TYPES;
+  primaryType: "EligibilityAttestation";
+  message: {
+    bountyId: string;
+    requirements: {
+      minReputation: number;
+      minCompleted: number;
+      minCompletedByTag: Array<{ tag: string; minCompleted: number }>;
+      maxAbandonmentBps: number;
+      noRiskFlags: boolean;
+    };
+    qualified: `0x${string}`[];
+    issuedAt: number;
+    expiresAt: number;
+  };
+  signature: Hex;
+}
+
+export interface EligibilityResult {
+  bountyId: string;
+  requirements: EligibilityRequirements;
+  evaluatedAt: string;
+  /** Checksummed addresses of the agents that meet every requirement, best ranked first */
+  qualified: string[];
+  agents: AgentEligibility[];
+  /** Null when no ATTESTATION_PRIVATE_KEY is configured */
+  attestation: EligibilityAttestation | null;
+}
+
+export function eligibilitySigner() {
+  return {
+    address: signer?.address ?? null,
+    domain: ELIGIBILITY_DOMAIN,
+    types: ELIGIBILITY_TYPES,
+    primaryType: "EligibilityAttestation" as const,
+  };
+}
+
+// Bounded by the widths of the signed fields
+const isCount = (v: unknown, max = 2 ** 32 - 1) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= max;
+
+/** Validates a POST /api/eligibility body. */
+export function parseEligibilityRequest(input: unknown): EligibilityRequest | { error: string } {
+  const body = (input ?? {}) as Record<string, unknown>;
+  if (!body.requirements || typeof body.requirements !== "object" || Array.isArray(body.requirements)) {
+    return { error: "requirements must be an object" };
+  }
+  const r = body.requirements as Record<string, unknown>;
+
+  if (r.minReputation != null && !isCount(r.minReputation, 2 ** 48 - 1)) {
+    return { error: "minReputation must be a non-negative integer" };
+  }
+  if (r.minCompleted != null && !isCount(r.minCompleted)) return { error: "minCompleted must be a non-negative integer" };
+  const rate = r.maxAbandonmentRate;
+  if (rate != null && !(typeof rate === "number" && rate >= 0 && rate <= 100)) {
+    return { error: "maxAbandonmentRate must be a percentage between 0 and 100" };
+  }
+  // It is signed in whole basis points, so only values that survive that exactly are taken
+  if (typeof rate === "number" && Math.abs(rate * 100 - Math.round(rate * 100)) > 1e-9) {
+    return { error: "maxAbandonmentRate takes at most two decimals" };
+  }
+  if (r.noRiskFlags != null && typeof r.noRiskFlags !== "boolean") return { error: "noRiskFlags must be a boolean" };
+
+  const byTag = (r.minCompletedByTag ?? {}) as Record<string, unknown>;
+  if (typeof byTag !== "object" || Array.isArray(byTag)) {
+    return { error: 'minCompletedByTag must be an object of tag to count, e.g. { "solidity": 2 }' };
+  }
+  const tags = Object.entries(byTag);
+  if (tags.length > MAX_TAGS) return { error: `minCompletedByTag takes at most ${MAX_TAGS} tags` };
+  if (tags.some(([tag, n]) => tag.trim() === "" || !isCount(n))) {
+    return { error: "minCompletedByTag counts must be non-negative integers" };
+  }
+
+  const requirements: EligibilityRequirements = {
+    minReputation: (r.minReputation as number | undefined) ?? null,
+    minCompleted: (r.minCompleted as number | undefined) ?? null,
+    minCompletedByTag: Object.fromEntries(tags) as Record<string, number>,
+    maxAbandonmentRate: typeof rate === "number" ? Math.round(rate * 100) / 100 : null,
+    noRiskFlags: r.noRiskFlags === true,
+  };
+  const none =
+    requirements.minReputation === null &&
+    requirements.minCompleted === null &&
+    tags.length === 0 &&
+    requirements.maxAbandonmentRate === null &&
+    !requirements.noRiskFlags;
+  if (none) return { error: "Give at least one requirement" };
+
+  const bountyId = body.bountyId ?? "";
+  if (typeof bountyId !== "string" || bountyId.length > 128) return { error: "bountyId must be a string of at most 128 characters" };
+
+  let agents: string[] | null = null;
+  if (body.agents != null) {
+    if (!Array.isArray(body.agents) || body.agents.some((a) => !ADDRESS_RE.test(String(a)))) {
+      return { error: "agents must be an array of 0x-prefixed addresses" };
+    }
+    if (body.agents.length === 0 || body.agents.length > MAX_AGENTS) {
+      return { error: `agents must list between 1 and ${MAX_AGENTS} addresses` };
+    }
+    agents = [...new Set((body.agents as string[]).map((a) => getAddress(a.toLowerCase())))];
+  }
+
+  return { bountyId, requirements, agents };
+}
+
+function evaluate(agent: AgentProfile, req: EligibilityRequirements, stats: Map<string, AgentStats>): CriterionResult[] {
+  const criteria: CriterionResult[] = [];
+
+  if (req.minReputation !== null) {
+    const actual = agent.onChainReputation;
+    const pass = actual >= req.minReputation;
+    criteria.push({
+      criterion: "minReputation",
+      required: req.minReputation,
+      actual,
+      pass,
+      reason: `On-chain reputation is ${actual}; at least ${req.minReputation} required`,
+    });
+  }
+  if (req.minCompleted !== null) {
+    const actual = agent.bountiesCompleted;
+    criteria.push({
+      criterion: "minCompleted",
+      required: req.minCompleted,
+      actual,
+      pass: actual >= req.minCompleted,
+      reason: `Completed ${actual} bounties; at least ${req.minCompleted} required`,
+    });
+  }
+  // Agents' tags are lowercased, so tags are matched case-insensitively, like the tag leaderboards
+  for (const [tag, required] of Object.entries(req.minCompletedByTag)) {
+    const key = tag.toLowerCase();
+    const actual = Object.hasOwn(agent.tagStats, key) ? agent.tagStats[key].completed : 0;
+    criteria.push({
+      criterion: "minCompletedByTag",
+      tag,
+      required,
+      actual,
+      pass: actual >= required,
+      reason: `Completed ${actual} "${tag}" bounties; at least ${required} required`,
+    });
+  }
+  if (req.maxAbandonmentRate !== null) {
+    const actual = stats.get(agent.address.toLowerCase())?.abandonmentRate ?? 0;
+    criteria.push({
+      criterion: "maxAbandonmentRate",
+      required: req.maxAbandonmentRate,
+      actual,
+      pass: actual <= req.maxAbandonmentRate,
+      reason: `Abandoned ${actual}% of claims; at most ${req.maxAbandonmentRate}% allowed`,
+    });
+  }
+  if (req.noRiskFlags) {
+    const flags = agent.risk.flags;
+    criteria.push({
+      criterion: "noRiskFlags",
+      required: true,
+      actual: flags,
+      pass: flags.length === 0,
+      reason: flags.length === 0 ? "No risk flags" : `Flagged for possible reputation gaming: ${flags.join(", ")}`,
+    });
+  }
+  return criteria;
+}
+
+function attestationMessage(bountyId: string, req: EligibilityRequirements, qualified: string[], now: number) {
+  return {
+    bountyId,
+    requirements: {
+      minReputation: req.minReputation ?? 0,
+      minCompleted: req.minCompleted ?? 0,
+      minCompletedByTag: Object.entries(req.minCompletedByTag).map(([tag, minCompleted]) => ({ tag, minCompleted })),
+      maxAbandonmentBps: req.maxAbandonmentRate === null ? 10_000 : Math.round(req.maxAbandonmentRate * 100),
+      noRiskFlags: req.noRiskFlags,
+    },
+    qualified: qualified as `0x${string}`[],
+    issuedAt: Math.floor(now / 1000),
+    expiresAt: Math.floor((now + ATTESTATION_TTL) / 1000),
+  };
+}
+
+/**
+ * Checks the requested agents (or every ranked agent) against the
+ * requirements, under the default scoring profile, and signs the list of
+ * those that qualify.
+ */
+export async function checkEligibility(request: EligibilityRequest, now = Date.now()): Promise<EligibilityResult> {
+  const agents = await getAgents();
+  const byAddress = new Map(agents.map((a) => [a.address.toLowerCase(), a]));
+  const candidates = request.agents ?? agents.map((a) => getAddress(a.address.toLowerCase()));
+  // Read once for every candidate rather than once per agent
+  const stats = request.requirements.maxAbandonmentRate !== null ? allAgentStats(now) : new Map<string, AgentStats>();
+
+  const results = candidates.map((address): AgentEligibility => {
+    const agent = byAddress.get(address.toLowerCase());
+    if (!agent) {
+      return { address, rank: null, eligible: false, criteria: [], reason: "No bounty history or on-chain reputation" };
+    }
+    const criteria = evaluate(agent, request.requirements, stats);
+    return { address, rank: agent.rank, eligible: criteria.every((c) => c.pass), criteria };
+  });
+  const qualified = results
+    .filter((r) => r.eligible)
+    .sort((a, b) => a.rank! - b.rank!)
+    .map((r) => r.address);
+
+  let attestation: EligibilityAttestation | null = null;
+  if (signer) {
+    const message = attestationMessage(request.bountyId, request.requirements, qualified, now);
+    const signature = await signer.signTypedData({
+      domain: ELIGIBILITY_DOMAIN,
+      types: ELIGIBILITY_TYPES,
+      primaryType: "EligibilityAttestation",
+      message,
+    });
+    attestation = {
+      signer: signer.address,
+      domain: ELIGIBILITY_DOMAIN,
+      types: ELIGIBILITY_TYPES,
+      primaryType: "EligibilityAttestation",
+      message,
+      signature,
+    };
+  }
+
+  return {
+    bountyId: request.bountyId,
+    requirements: request.requirements,
+    evaluatedAt: new Date(now).toISOString(),
+    qualified,
+    agents: results,
+    attestation,
+  };
+}
@@ -0,0 +1,111 @@
+import type { AgentProfile, FeedbackEntry } from "./types";
+
+// --- Refresh Events ---
+//
+// Each sync produces a RefreshState; comparing it with the previous one
+// yields the events webhooks (and other listeners) react to.
+
+export interface RefreshState {
+  agents: AgentProfile[];
+  /** Full feedback history per lowercased agent address */
+  feedback: Map<string, FeedbackEntry[]>;
+  /** Lowercased addresses enumerated from the registry, or null when enumeration failed */
+  registered: Set<string> | null;
+}
+
+export type AgentSummary = Omit<AgentProfile, "history">;
+
+export type ReputationEvent =
+  | { type: "agent.updated"; address: string; agent: AgentSummary }
+  | { type: "feedback.new"; address: string; feedback: FeedbackEntry }
+  | { type: "rank.changed"; address: string; previousRank: number | null; rank: number | null }
+  | { type: "bounty.completed"; address: string; bountyId: string; title: string; reward: number }
+  | { type: "agent.registered"; address: string };
+
+type EventListener = (events: ReputationEvent[]) => void;
+
+const listeners: EventListener[] = [];
+
+export function onReputationEvents(listener: EventListener): void {
+  listeners.push(listener);
+}
+
+export function emitReputationEvents(events: ReputationEvent[]): void {
+  if (events.length === 0) return;
+  for (const listener of listeners) {
+    try {
+      listener(events);
+    } catch (err) {
+      console.error(`Event listener error: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+// Fields whose change makes an agent worth re-sending to live clients
+const TRACKED_FIELDS = [
+  "rank",
+  "score",
+  "onChainReputation",
+  "totalEarnings",
+  "verifiedEarnings",
+  "bountiesCompleted",
+  "bountiesClaimed",
+  "successRate",
+] as const;
+
+function summarize(agent: AgentProfile): AgentSummary {
+  const { history: _history, ...summary } = agent;
+  return summary;
+}
+
+const feedbackKey = (f: FeedbackEntry) => `${f.from.toLowerCase()}:${f.timestamp}:${f.score}:${f.comment}`;
+
+export function diffRefresh(prev: RefreshState, next: RefreshState): ReputationEvent[] {
+  const events: ReputationEvent[] = [];
+
+  for (const [address, entries] of next.feedback) {
+    const before = new Set((prev.feedback.get(address) || []).map(feedbackKey));
+    for (const f of entries) {
+      if (!before.has(feedbackKey(f))) events.push({ type: "feedback.new", address, feedback: f });
+    }
+  }
+
+  const prevAgents = new Map(prev.agents.map((a) => [a.address.toLowerCase(), a]));
+  const nextAgents = new Map(next.agents.map((a) => [a.address.toLowerCase(), a]));
+
+  for (const [address, agent] of nextAgents) {
+    const before = prevAgents.get(address);
+    const changed =
+      !before ||
+      TRACKED_FIELDS.some((f) => before[f] !== agent[f]) ||
+      before.risk.level !== agent.risk.level ||
+      before.recentFeedback.length !== agent.recentFeedback.length;
+    if (changed) events.push({ type: "agent.updated", address, agent: summarize(agent) });
+
+    if (before?.rank !== agent.rank) {
+      events.push({ type: "rank.changed", address, previousRank: before?.rank ?? null, rank: agent.rank });
+    }
+
+    const completedBefore = new Set(
+      (before?.history || []).filter((h) => h.status === "completed").map((h) => h.bountyId)
+    );
+    for (const h of agent.history) {
+      if (h.status === "completed" && !completedBefore.has(h.bountyId)) {
+        events.push({ type: "bounty.completed", address, bountyId: h.bountyId, title: h.title, reward: h.reward });
+      }
+    }
+  }
+  for (const [address, agent] of prevAgents) {
+    if (!nextAgents.has(address)) {
+      events.push({ type: "rank.changed", address, previousRank: agent.rank, rank: null });
+    }
+  }
+
+  if (prev.registered && next.registered) {
+    for (const address of next.registered) {
+      if (!prev.registered.has(address)) events.push({ type: "agent.registered", address });
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,234 @@
+import { CHAINS, chainById } from "./chain";
+import { loadBounties, loadReputations, loadTransfers } from "./db";
+import { bountyPayment, matchPayouts } from "./payments";
+import { queryAgents, type AgentQuery } from "./query";
+import { dataFreshness, getAgents, syncStatus } from "./sync";
+import type { AgentProfile } from "./types";
+
+// --- Data Exports ---
+//
+// CSV and JSON Lines downloads of the leaderboard, bounties and feedback,
+// filtered like /api/agents. Rows are produced lazily and streamed in
+// batches, so a large export is never built in memory as one string.
+
+export const EXPORT_DATASETS = ["agents", "bounties", "feedback"] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+export type ExportFormat = "csv" | "jsonl";
+
+export interface ExportFilters {
+  /** Leaderboard filters: tag, minCompleted, search, sort and limit */
+  query: AgentQuery;
+  /** Epoch ms bounds on each row's date; null leaves that side open */
+  from: number | null;
+  to: number | null;
+  /** Restricts bounties and feedback to one agent */
+  agent: string | null;
+  profile: string;
+}
+
+type Cell = string | number | boolean | null | undefined;
+type Row = Record<string, Cell>;
+
+const BATCH_SIZE = 500;
+const encoder = new TextEncoder();
+
+function csvCell(value: Cell): string {
+  if (value === null || value === undefined) return "";
+  let s = String(value);
+  // Keep spreadsheet apps from evaluating user-supplied text (comments, titles) as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function streamRows(rows: Iterable<Row>, columns: string[], format: ExportFormat): ReadableStream<Uint8Array> {
+  const iterator = rows[Symbol.iterator]();
+  const newline = format === "csv" ? "\r\n" : "\n";
+  let headerSent = format !== "csv";
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const lines: string[] = [];
+      if (!headerSent) {
+        lines.push(columns.map(csvCell).join(","));
+        headerSent = true;
+      }
+      let done = false;
+      while (lines.length < BATCH_SIZE) {
+        const next = iterator.next();
+        if (next.done) {
+          done = true;
+          break;
+        }
+        const row = next.value;
+        if (format === "csv") lines.push(columns.map((c) => csvCell(row[c])).join(","));
+        else lines.push(JSON.stringify(Object.fromEntries(columns.map((c) => [c, row[c] ?? null]))));
+      }
+      if (lines.length > 0) controller.enqueue(encoder.encode(lines.join(newline) + newline));
+      if (done) controller.close();
+    },
+  });
+}
+
+const inRange = (t: number, f: ExportFilters) =>
+  !Number.isNaN(t) && (f.from === null || t >= f.from) && (f.to === null || t <= f.to);
+
+// Agents passing the leaderboard filters, in leaderboard order
+function filteredAgents(agents: AgentProfile[], f: ExportFilters): AgentProfile[] {
+  return queryAgents(agents, { ...f.query, fields: null }).items as AgentProfile[];
+}
+
+function agentTable(agents: AgentProfile[], f: ExportFilters) {
+  // A date range keeps agents with bounty activity dated inside it
+  const matched = filteredAgents(agents, f).filter(
+    (a) => (f.from === null && f.to === null) || a.history.some((h) => inRange(Date.parse(h.date), f))
+  );
+  const tags = [...new Set(matched.flatMap((a) => Object.keys(a.tags)))].sort();
+  const columns = [
+    "rank",
+    "address",
+    "score",
+    "onChainReputation",
+    "totalEarnings",
+    "netEarnings",
+    "verifiedEarnings",
+    "bountiesCompleted",
+    "bountiesClaimed",
+    "successRate",
+    "riskLevel",
+    ...tags.map((t) => `tag:${t}`),
+  ];
+
+  function* rows(): Generator<Row> {
+    for (const a of matched) {
+      const row: Row = {
+        rank: a.rank,
+        address: a.address,
+        score: a.score,
+        onChainReputation: a.onChainReputation,
+        totalEarnings: a.totalEarnings,
+        netEarnings: a.netEarnings,
+        verifiedEarnings: a.verifiedEarnings,
+        bountiesCompleted: a.bountiesCompleted,
+        bountiesClaimed: a.bountiesClaimed,
+        successRate: a.successRate,
+        riskLevel: a.risk.level,
+      };
+      for (const t of tags) row[`tag:${t}`] = a.tags[t] ?? 0;
+      yield row;
+    }
+  }
+  return { columns, rows: rows() };
+}
+
+// Only narrow by agent when a leaderboard filter was actually given
+function agentScope(agents: AgentProfile[], f: ExportFilters): Set<string> | null {
+  if (!f.query.tag && !f.query.search && f.query.minCompleted === 0 && f.query.limit === null) return null;
+  return new Set(filteredAgents(agents, f).map((a) => a.address.toLowerCase()));
+}
+
+function bountyTable(agents: AgentProfile[], f: ExportFilters) {
+  const all = loadBounties();
+  const payouts = matchPayouts(all, loadTransfers());
+  const scope = agentScope(agents, { ...f, query: { ...f.query, tag: null } });
+  const matched = all
+    .filter((b) => {
+      const claimer = b.claimedBy?.toLowerCase();
+      if (f.agent && claimer !== f.agent) return false;
+      if (scope && (!claimer || !scope.has(claimer))) return false;
+      if (f.query.tag && !(b.tags || []).some((t) => t.toLowerCase() === f.query.tag)) return false;
+      return f.from === null && f.to === null ? true : inRange(Date.parse(b.completedAt || b.createdAt || ""), f);
+    })
+    .sort((a, b) => Date.parse(a.createdAt || "") - Date.parse(b.createdAt || "") || a.id.localeCompare(b.id));
+  const columns = [
+    "id",
+    "title",
+    "status",
+    "claimedBy",
+    "creator",
+    "tags",
+    "token",
+    "gross",
+    "fee",
+    "net",
+    "createdAt",
+    "claimedAt",
+    "completedAt",
+    "verified",
+    "payoutTx",
+  ];
+
+  function* rows(): Generator<Row> {
+    for (const b of matched) {
+      const payment = bountyPayment(b);
+      const payout = payouts.get(b.id);
+      yield {
+        id: b.id,
+        title: b.title,
+        status: b.status,
+        claimedBy: b.claimedBy,
+        creator: b.creator,
+        tags: (b.tags || []).join(";"),
+        token: payment.token.symbol,
+        gross: payment.gross,
+        fee: payment.fee,
+        net: payment.net,
+        createdAt: b.createdAt,
+        claimedAt: b.claimedAt,
+        completedAt: b.completedAt,
+        verified: !!payout,
+        payoutTx: payout?.txHash,
+      };
+    }
+  }
+  return { columns, rows: rows() };
+}
+
+function feedbackTable(agents: AgentProfile[], f: ExportFilters) {
+  const scope = agentScope(agents, f);
+  const reps = loadReputations().filter((r) => {
+    const addr = r.address.toLowerCase();
+    return (!f.agent || addr === f.agent) && (!scope || scope.has(addr));
+  });
+  const columns = ["chainId", "chain", "agent", "from", "score", "comment", "timestamp"];
+
+  function* rows(): Generator<Row> {
+    for (const rep of reps) {
+      const chain = chainById(rep.chainId)?.key ?? String(rep.chainId);
+      for (const fb of rep.feedback) {
+        if ((f.from !== null || f.to !== null) && !inRange(fb.timestamp * 1000, f)) continue;
+        yield {
+          chainId: rep.chainId,
+          chain,
+          agent: rep.address,
+          from: fb.from,
+          score: fb.score,
+          comment: fb.comment,
+          timestamp: new Date(fb.timestamp * 1000).toISOString(),
+        };
+      }
+    }
+  }
+  return { columns, rows: rows() };
+}
+
+/** Streams one dataset as CSV or JSON Lines, with the snapshot time and registries in the headers. */
+export async function exportDataset(dataset: ExportDataset, format: ExportFormat, f: ExportFilters): Promise<Response> {
+  const agents = await getAgents(f.profile);
+  const table =
+    dataset === "agents" ? agentTable(agents, f) : dataset === "bounties" ? bountyTable(agents, f) : feedbackTable(agents, f);
+
+  const snapshotAt = syncStatus().lastSyncAt ?? new Date().toISOString();
+  const stamp = snapshotAt.slice(0, 19).replace(/[-:]/g, "");
+  const suffix = f.agent ? `-${f.agent.slice(0, 10)}` : "";
+
+  return new Response(streamRows(table.rows, table.columns, format), {
+    headers: {
+      "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${dataset}${suffix}-${stamp}.${format}"`,
+      "Cache-Control": "no-store",
+      "X-Snapshot-At": snapshotAt,
+      "X-Registry": CHAINS.map((c) => `${c.chainId}:${c.registry}`).join(", "),
+      "X-Data-Freshness": dataFreshness().state,
+    },
+  });
+}
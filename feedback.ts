@@ -0,0 +1,78 @@
+import { encodeFunctionData } from "viem";
+import { CHAINS, chainById, REPUTATION_ABI } from "./chain";
+import { loadBounties } from "./db";
+
+// --- Feedback Submission ---
+//
+// Builds an unsigned giveFeedback() transaction for the profile page's wallet
+// flow. The registry records msg.sender as the rater, so the wallet that signs
+// is the one vetted here: it must have posted a completed bounty this agent
+// claimed.
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+// Matches the range the scoring model reads (feedbackScoreMax)
+const SCORE_MIN = -10;
+const SCORE_MAX = 10;
+const MAX_COMMENT_LENGTH = 280;
+
+export interface PreparedFeedback {
+  chainId: number;
+  from: string;
+  to: string;
+  data: string;
+  value: "0x0";
+  /** Completed bounties that make `from` eligible to rate this agent */
+  bounties: Array<{ id: string; title: string }>;
+}
+
+/** Validates a POST /api/agent/:address/feedback/prepare body and returns calldata for the wallet to send. */
+export function prepareFeedback(
+  agent: string,
+  input: unknown
+): PreparedFeedback | { error: string; status: 400 | 403 } {
+  const body = (input ?? {}) as Record<string, unknown>;
+
+  if (!ADDRESS_RE.test(agent)) return { error: "Invalid agent address", status: 400 };
+  const from = String(body.from ?? "");
+  if (!ADDRESS_RE.test(from)) return { error: "from must be the connected wallet's 0x-prefixed address", status: 400 };
+  if (from.toLowerCase() === agent.toLowerCase()) {
+    return { error: "Agents cannot leave feedback on themselves", status: 403 };
+  }
+
+  const score = body.score;
+  if (!Number.isInteger(score) || (score as number) < SCORE_MIN || (score as number) > SCORE_MAX) {
+    return { error: `score must be an integer from ${SCORE_MIN} to ${SCORE_MAX}`, status: 400 };
+  }
+  const comment = body.comment ?? "";
+  if (typeof comment !== "string" || comment.length > MAX_COMMENT_LENGTH) {
+    return { error: `comment must be a string of at most ${MAX_COMMENT_LENGTH} characters`, status: 400 };
+  }
+
+  const chain = body.chainId === undefined ? CHAINS[0] : chainById(Number(body.chainId));
+  if (!chain) {
+    return { error: `chainId must be one of: ${CHAINS.map((c) => c.chainId).join(", ")}`, status: 400 };
+  }
+
+  const bounties = loadBounties().filter(
+    (b) =>
+      b.status === "completed" &&
+      b.creator?.toLowerCase() === from.toLowerCase() &&
+      b.claimedBy?.toLowerCase() === agent.toLowerCase()
+  );
+  if (bounties.length === 0) {
+    return { error: "Only the poster of a completed bounty claimed by this agent can leave feedback", status: 403 };
+  }
+
+  return {
+    chainId: chain.chainId,
+    from,
+    to: chain.registry,
+    data: encodeFunctionData({
+      abi: REPUTATION_ABI,
+      functionName: "giveFeedback",
+      args: [agent.toLowerCase() as `0x${string}`, score as number, comment.trim()],
+    }),
+    value: "0x0",
+    bounties: bounties.map((b) => ({ id: b.id, title: b.title })),
+  };
+}
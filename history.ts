@@ -0,0 +1,59 @@
+import { loadAgentSnapshots, loadRanksAsOf } from "./db";
+import type { AgentProfile } from "./types";
+
+// --- Reputation & Rank History ---
+
+const RANK_CHANGE_WINDOW = parseInt(process.env.RANK_CHANGE_WINDOW_MS || String(7 * 86_400_000), 10);
+
+export const HISTORY_INTERVALS = {
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 7 * 86_400_000,
+} as const;
+
+export type HistoryInterval = keyof typeof HISTORY_INTERVALS;
+
+export interface HistoryPoint {
+  timestamp: string;
+  rank: number;
+  reputation: number;
+  earnings: number;
+  bountiesCompleted: number;
+  successRate: number;
+}
+
+/**
+ * An agent's metrics over [from, to], bucketed by interval. Each bucket
+ * reports the last snapshot taken inside it; empty buckets are omitted.
+ */
+export function agentHistory(
+  address: string,
+  from: number,
+  to: number,
+  interval: HistoryInterval
+): HistoryPoint[] {
+  const size = HISTORY_INTERVALS[interval];
+  const buckets = new Map<number, HistoryPoint>();
+
+  for (const row of loadAgentSnapshots(address, from, to)) {
+    const bucket = Math.floor(row.taken_at / size) * size;
+    buckets.set(bucket, {
+      timestamp: new Date(bucket).toISOString(),
+      rank: row.rank,
+      reputation: row.on_chain_reputation,
+      earnings: row.total_earnings,
+      bountiesCompleted: row.bounties_completed,
+      successRate: row.success_rate,
+    });
+  }
+  return [...buckets.values()];
+}
+
+/** Fills in `rankChange` against the newest snapshot at least one window old. */
+export function applyRankChanges(agents: AgentProfile[], now = Date.now()): void {
+  const previous = loadRanksAsOf(now - RANK_CHANGE_WINDOW);
+  for (const agent of agents) {
+    const before = previous.get(agent.address.toLowerCase());
+    agent.rankChange = before === undefined ? null : before - agent.rank;
+  }
+}
@@ -0,0 +1,65 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+// --- Outbound Host Checks ---
+//
+// URLs that users hand us (webhook targets, agent card links) are fetched by
+// the server, so they must not reach loopback, link-local, private or other
+// non-public addresses: that would turn the app into a proxy into its own
+// network. Names are resolved and every address they resolve to is checked.
+
+// Names that only mean something inside a network
+const LOCAL_NAME_RE = /(^|\.)(localhost|local|internal|intranet|lan|home\.arpa)$/i;
+
+function ipv4Private(ip: string): boolean {
+  const [a, b, c] = ip.split(".").map(Number);
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) || // protocol assignments
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+/** True for addresses a server-side fetch must not reach. */
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) return ipv4Private(ip);
+  if (version !== 6) return true;
+  const lower = ip.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return ipv4Private(mapped[1]);
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    /^f[cd]/.test(lower) || // unique local
+    /^fe[89ab]/.test(lower) || // link-local
+    lower.startsWith("ff") || // multicast
+    lower.startsWith("::ffff:") // mapped addresses written in hex
+  );
+}
+
+/**
+ * Resolves `hostname` and checks every address it has. Returns an error
+ * message, or null when the host is public.
+ */
+export async function checkPublicHost(hostname: string): Promise<string | null> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (LOCAL_NAME_RE.test(host)) return `${host} is a local name`;
+  if (isIP(host)) return isPrivateAddress(host) ? `${host} is not a public address` : null;
+  if (!host.includes(".")) return `${host} is not a fully qualified name`;
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return `${host} does not resolve`;
+  }
+  const blocked = addresses.find((a) => isPrivateAddress(a.address));
+  return blocked ? `${host} resolves to a non-public address (${blocked.address})` : null;
+}
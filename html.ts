@@ -0,0 +1,49 @@
+// --- HTML Escaping ---
+//
+// Pages are rendered on the server from data anyone can write: feedback
+// comments, bounty titles, ENS records. Every value interpolated with the
+// `html` tag is escaped; only fragments built with `html` themselves (or
+// trusted constants wrapped in `raw`) are inserted as markup.
+
+export interface SafeHtml {
+  readonly __html: string;
+}
+
+type Interpolation = SafeHtml | string | number | boolean | null | undefined | readonly Interpolation[];
+
+export const escapeHtml = (s: string) =>
+  s.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const isSafe = (value: unknown): value is SafeHtml => typeof value === "object" && value !== null && "__html" in value;
+
+function render(value: Interpolation): string {
+  // null, undefined and false render nothing, so `${cond && html`...`}` works
+  if (value === null || value === undefined || value === false) return "";
+  if (Array.isArray(value)) return value.map(render).join("");
+  if (isSafe(value)) return value.__html;
+  return escapeHtml(String(value));
+}
+
+/** Template tag that escapes every interpolated value except other `html` fragments. */
+export function html(strings: TemplateStringsArray, ...values: Interpolation[]): SafeHtml {
+  let out = strings[0];
+  values.forEach((value, i) => (out += render(value) + strings[i + 1]));
+  return { __html: out };
+}
+
+/** Marks trusted, constant markup. Never pass it request or upstream data. */
+export const raw = (markup: string): SafeHtml => ({ __html: markup });
+
+/** Same-origin paths and http(s) URLs pass; anything else (javascript:, data:) becomes "#". */
+export function safeUrl(url: string): string {
+  if (url.startsWith("/") && !url.startsWith("//")) return url;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "https:" || protocol === "http:" ? url : "#";
+  } catch {
+    return "#";
+  }
+}
+
+/** Reduces a value (a bounty status, a risk level) to characters safe in a class name. */
+export const cssToken = (value: string) => value.toLowerCase().replace(/[^a-z0-9-]/g, "");
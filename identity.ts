@@ -0,0 +1,388 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  fallback,
+  http,
+  isAddress,
+  namehash,
+  parseAbi,
+  zeroAddress,
+} from "viem";
+import { mainnet } from "viem/chains";
+import { normalize } from "viem/ens";
+import { CHAINS, IDENTITY_ABI, chainById, instrumented } from "./chain";
+import { loadBounties, loadIdentities, loadReputations, saveIdentity } from "./db";
+import { checkPublicHost } from "./hosts";
+import type { AgentIdentity } from "./types";
+
+// --- Agent Identity ---
+//
+// Names for addresses: ENS on mainnet and Basenames on Base, both from the
+// primary (reverse) record and only kept when the name resolves forward to
+// the same address. Agents registered in an ERC-8004 identity registry also
+// get the avatar, description and links from their agent card; the card's
+// name is self-asserted, so it is kept apart and never used as the name.
+// Results for agents, posters and raters, misses included, are stored and
+// refreshed after IDENTITY_TTL_MS; other addresses are looked up but not kept.
+
+const ENS_RPC_URLS = [process.env.ENS_RPC_URL, "https://ethereum-rpc.publicnode.com", "https://eth.llamarpc.com"].filter(
+  (u): u is string => !!u
+);
+const TTL = parseInt(process.env.IDENTITY_TTL_MS || "86400000", 10);
+const INTERVAL = parseInt(process.env.IDENTITY_INTERVAL_MS || "60000", 10);
+const BATCH = parseInt(process.env.IDENTITY_BATCH || "25", 10);
+// After an RPC or network failure, wait this long before trying an address again
+const RETRY_AFTER = 10 * 60_000;
+const CARD_TIMEOUT = 5000;
+// Forward lookups of names typed into profile URLs, misses included, are reused this long
+const NAME_CACHE_TTL = 10 * 60_000;
+const NAME_CACHE_SIZE = 10_000;
+const MAX_CARD_BYTES = 64 * 1024;
+
+// Basenames' L2 resolver on Base; reverse records live under Base's ENSIP-11 coin type (0x80000000 | 8453)
+const BASE_CHAIN_ID = 8453;
+const BASENAME_RESOLVER = "0xC6d566A56A1aFf6508b41f6c90ff131615583BCD";
+const BASE_REVERSE_SUFFIX = "80002105.reverse";
+const RESOLVER_ABI = parseAbi([
+  "function name(bytes32 node) view returns (string)",
+  "function addr(bytes32 node) view returns (address)",
+  "function text(bytes32 node, string key) view returns (string)",
+]);
+const TEXT_KEYS = ["description", "url", "com.twitter", "com.github"] as const;
+
+// A bare hostname; agent domains come from an on-chain registration anyone can write, so the
+// host must also resolve to public addresses only before the card is fetched
+const AGENT_DOMAIN_RE = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+const ensClient = createPublicClient({
+  chain: mainnet,
+  transport: fallback(ENS_RPC_URLS.map((url) => instrumented("ens", http(url)))),
+});
+
+interface NameRecord {
+  name: string;
+  avatar: string | null;
+  description: string | null;
+  links: AgentIdentity["links"];
+}
+
+// Identities stored before cardName existed may carry a card's name as the name; they are resolved again
+const identities = new Map<string, AgentIdentity>(
+  loadIdentities()
+    .filter((i) => i.cardName !== undefined)
+    .map((i) => [i.address.toLowerCase(), i])
+);
+const failedAt = new Map<string, number>();
+const nameLookups = new Map<string, { at: number; address: string | null }>();
+const resolver = {
+  lastRunAt: null as string | null,
+  lastError: null as string | null,
+  pending: 0,
+};
+let running = false;
+
+export function identityStatus() {
+  return { cached: identities.size, ...resolver };
+}
+
+/** Cached identity for an address; null if it hasn't been resolved yet. */
+export function getIdentity(address: string): AgentIdentity | null {
+  return identities.get(address.toLowerCase()) ?? null;
+}
+
+// Only https (and IPFS, via a gateway) links are shown, so pages never embed mixed or script URLs
+function httpsUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const v = value.trim();
+  if (v.startsWith("ipfs://")) return `https://ipfs.io/ipfs/${v.slice(7).replace(/^ipfs\//, "")}`;
+  try {
+    return new URL(v).protocol === "https:" ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+const text = (value: unknown, max: number) =>
+  typeof value === "string" && value.trim() ? value.trim().slice(0, max) : null;
+
+function textRecordLinks(records: Partial<Record<(typeof TEXT_KEYS)[number], string | null>>) {
+  const links: AgentIdentity["links"] = [];
+  const url = httpsUrl(records.url);
+  if (url) links.push({ label: "Website", url });
+  const handle = (v?: string | null) => v?.trim().replace(/^@/, "");
+  if (handle(records["com.twitter"])) links.push({ label: "X", url: `https://x.com/${encodeURIComponent(handle(records["com.twitter"])!)}` });
+  if (handle(records["com.github"])) links.push({ label: "GitHub", url: `https://github.com/${encodeURIComponent(handle(records["com.github"])!)}` });
+  return links;
+}
+
+// Names that fail ENSIP-15 normalisation are treated as unset
+function normalized(name: string): string | null {
+  try {
+    return normalize(name);
+  } catch {
+    return null;
+  }
+}
+
+const isRevert = (err: unknown) =>
+  err instanceof BaseError && !!err.walk((e) => e instanceof ContractFunctionRevertedError);
+
+async function ensRecord(address: `0x${string}`): Promise<NameRecord | null> {
+  const reverse = await ensClient.getEnsName({ address });
+  const name = reverse && normalized(reverse);
+  if (!name) return null;
+  const forward = await ensClient.getEnsAddress({ name });
+  if (forward?.toLowerCase() !== address.toLowerCase()) return null;
+
+  const [avatar, ...texts] = await Promise.all([
+    ensClient.getEnsAvatar({ name }).catch(() => null),
+    ...TEXT_KEYS.map((key) => ensClient.getEnsText({ name, key }).catch(() => null)),
+  ]);
+  const records = Object.fromEntries(TEXT_KEYS.map((key, i) => [key, texts[i]]));
+  return { name, avatar: httpsUrl(avatar), description: text(records.description, 500), links: textRecordLinks(records) };
+}
+
+async function basenameRecord(address: `0x${string}`): Promise<NameRecord | null> {
+  const base = chainById(BASE_CHAIN_ID);
+  if (!base) return null;
+  const contract = { address: BASENAME_RESOLVER, abi: RESOLVER_ABI } as const;
+
+  const reverseNode = namehash(`${address.slice(2).toLowerCase()}.${BASE_REVERSE_SUFFIX}`);
+  const reverse = await base.client.readContract({ ...contract, functionName: "name", args: [reverseNode] });
+  const name = reverse && normalized(reverse);
+  if (!name) return null;
+  const node = namehash(name);
+  const forward = await base.client.readContract({ ...contract, functionName: "addr", args: [node] });
+  if (forward.toLowerCase() !== address.toLowerCase()) return null;
+
+  const keys = ["avatar", ...TEXT_KEYS] as const;
+  const values = await Promise.all(
+    keys.map((key) => base.client.readContract({ ...contract, functionName: "text", args: [node, key] }).catch(() => ""))
+  );
+  const records = Object.fromEntries(keys.map((key, i) => [key, values[i] || null]));
+  return { name, avatar: httpsUrl(records.avatar), description: text(records.description, 500), links: textRecordLinks(records) };
+}
+
+// The body up to `max` bytes, or null past that; read in chunks so an oversized card is never buffered whole
+async function readCapped(res: Response, max: number): Promise<string | null> {
+  if (Number(res.headers.get("Content-Length") || 0) > max) return null;
+  const reader = res.body?.getReader();
+  if (!reader) return null;
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > max) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+async function fetchAgentCard(domain: string): Promise<Record<string, unknown> | null> {
+  if (!AGENT_DOMAIN_RE.test(domain) || (await checkPublicHost(domain))) return null;
+  try {
+    const res = await fetch(`https://${domain}/.well-known/agent-card.json`, {
+      headers: { Accept: "application/json" },
+      // A redirect could point anywhere, including back inside the network
+      redirect: "manual",
+      signal: AbortSignal.timeout(CARD_TIMEOUT),
+    });
+    if (!res.ok) return null;
+    const body = await readCapped(res, MAX_CARD_BYTES);
+    if (body === null) return null;
+    const card = JSON.parse(body);
+    return card && typeof card === "object" ? card : null;
+  } catch {
+    return null;
+  }
+}
+
+function cardLinks(card: Record<string, unknown>): AgentIdentity["links"] {
+  const links: AgentIdentity["links"] = [];
+  const homepage = httpsUrl(card.url ?? card.homepage);
+  if (homepage) links.push({ label: "Website", url: homepage });
+  // Accept [{ label|name, url }] or { label: url }
+  const raw = Array.isArray(card.links)
+    ? card.links.map((l) => [(l as Record<string, unknown>)?.label ?? (l as Record<string, unknown>)?.name, (l as Record<string, unknown>)?.url])
+    : card.links && typeof card.links === "object"
+      ? Object.entries(card.links)
+      : [];
+  for (const [label, url] of raw) {
+    const safe = httpsUrl(url);
+    if (safe && typeof label === "string" && label.trim()) links.push({ label: label.trim().slice(0, 32), url: safe });
+  }
+  return links.slice(0, 8);
+}
+
+async function registryRecord(address: `0x${string}`) {
+  for (const chain of CHAINS) {
+    if (!chain.identityRegistry) continue;
+    let info;
+    try {
+      info = await chain.client.readContract({
+        address: chain.identityRegistry,
+        abi: IDENTITY_ABI,
+        functionName: "resolveByAddress",
+        args: [address],
+      });
+    } catch (err) {
+      // Unregistered addresses revert; anything else is a real failure
+      if (isRevert(err)) continue;
+      throw err;
+    }
+    if (info.agentId === 0n) continue;
+
+    const domain = info.agentDomain.trim().toLowerCase();
+    const card = domain ? await fetchAgentCard(domain) : null;
+    return {
+      agentId: info.agentId.toString(),
+      agentDomain: domain || null,
+      cardName: card ? text(card.name, 64) : null,
+      avatar: card ? httpsUrl(card.image ?? card.iconUrl ?? card.avatar) : null,
+      description: card ? text(card.description, 500) : null,
+      links: card ? cardLinks(card) : [],
+    };
+  }
+  return null;
+}
+
+/**
+ * Looks an address up now. The result is cached and stored when `persist` is
+ * set, which only known addresses should get. Throws if any source was unreachable.
+ */
+export async function resolveIdentity(address: string, persist = true): Promise<AgentIdentity> {
+  const addr = address.toLowerCase() as `0x${string}`;
+  const [ens, basename, registry] = await Promise.allSettled([
+    ensRecord(addr),
+    basenameRecord(addr),
+    registryRecord(addr),
+  ]);
+  const failure = [ens, basename, registry].find((r) => r.status === "rejected");
+  if (failure) {
+    if (persist) failedAt.set(addr, Date.now());
+    throw (failure as PromiseRejectedResult).reason;
+  }
+
+  const e = (ens as PromiseFulfilledResult<NameRecord | null>).value;
+  const b = (basename as PromiseFulfilledResult<NameRecord | null>).value;
+  const r = (registry as PromiseFulfilledResult<Awaited<ReturnType<typeof registryRecord>>>).value;
+  const identity: AgentIdentity = {
+    address: addr,
+    name: e?.name ?? b?.name ?? null,
+    cardName: r?.cardName ?? null,
+    ens: e?.name ?? null,
+    basename: b?.name ?? null,
+    avatar: r?.avatar ?? e?.avatar ?? b?.avatar ?? null,
+    description: r?.description ?? e?.description ?? b?.description ?? null,
+    links: [...(r?.links ?? []), ...(e?.links ?? []), ...(b?.links ?? [])].filter(
+      (l, i, all) => all.findIndex((o) => o.url === l.url) === i
+    ),
+    agentId: r?.agentId ?? null,
+    agentDomain: r?.agentDomain ?? null,
+    resolvedAt: new Date().toISOString(),
+  };
+  if (!persist) return identity;
+  identities.set(addr, identity);
+  failedAt.delete(addr);
+  saveIdentity(identity);
+  return identity;
+}
+
+/**
+ * Turns an address, ENS name or Basename into an address. Names already
+ * cached resolve locally; others are resolved forward on-chain.
+ */
+export async function resolveAgentAddress(input: string): Promise<string | null> {
+  if (isAddress(input, { strict: false })) return input;
+  const name = normalized(input);
+  if (!name?.includes(".")) return null;
+
+  for (const identity of identities.values()) {
+    if (identity.ens === name || identity.basename === name) return identity.address;
+  }
+  const cached = nameLookups.get(name);
+  if (cached && Date.now() - cached.at < NAME_CACHE_TTL) return cached.address;
+  try {
+    const base = chainById(BASE_CHAIN_ID);
+    const resolved =
+      name.endsWith(".base.eth") && base
+        ? await base.client.readContract({
+            address: BASENAME_RESOLVER,
+            abi: RESOLVER_ABI,
+            functionName: "addr",
+            args: [namehash(name)],
+          })
+        : await ensClient.getEnsAddress({ name });
+    const address = resolved && resolved !== zeroAddress ? resolved : null;
+    nameLookups.delete(name);
+    if (nameLookups.size >= NAME_CACHE_SIZE) nameLookups.delete(nameLookups.keys().next().value!);
+    nameLookups.set(name, { at: Date.now(), address });
+    return address;
+  } catch {
+    // Not cached: an RPC failure says nothing about the name
+    return null;
+  }
+}
+
+/** Whether the address is an agent, poster or rater, i.e. one the resolver keeps an identity for. */
+export function isKnownAddress(address: string): boolean {
+  return knownAddresses().has(address.toLowerCase());
+}
+
+// Agents, posters and raters: everyone whose address the pages display
+function knownAddresses(): Set<string> {
+  const addresses = new Set<string>();
+  for (const b of loadBounties()) {
+    if (b.claimedBy) addresses.add(b.claimedBy.toLowerCase());
+    if (b.creator) addresses.add(b.creator.toLowerCase());
+  }
+  for (const rep of loadReputations()) {
+    addresses.add(rep.address.toLowerCase());
+    for (const f of rep.feedback) if (f.from) addresses.add(f.from.toLowerCase());
+  }
+  return addresses;
+}
+
+const resolvedAt = (addr: string) => {
+  const cached = identities.get(addr);
+  return cached ? Date.parse(cached.resolvedAt) : 0;
+};
+
+/** Resolves unseen and expired addresses in batches. Safe to call once at boot. */
+export function startIdentityResolver(): void {
+  if (running) return;
+  running = true;
+
+  const tick = async () => {
+    const now = Date.now();
+    const due = [...knownAddresses()]
+      .filter((addr) => {
+        const cached = identities.get(addr);
+        const expired = !cached || now - Date.parse(cached.resolvedAt) > TTL;
+        return expired && now - (failedAt.get(addr) ?? 0) > RETRY_AFTER;
+      })
+      // Never-resolved addresses first, then the stalest
+      .sort((a, b) => resolvedAt(a) - resolvedAt(b));
+    resolver.pending = due.length;
+
+    let lastError: string | null = null;
+    for (const addr of due.slice(0, BATCH)) {
+      try {
+        await resolveIdentity(addr);
+        resolver.pending--;
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+      }
+    }
+    resolver.lastError = lastError;
+    resolver.lastRunAt = new Date().toISOString();
+    setTimeout(tick, INTERVAL);
+  };
+  tick();
+}
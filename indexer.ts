@@ -0,0 +1,220 @@
+import type { Log } from "viem";
+import { CHAINS, FEEDBACK_EVENT, type RegistryChain } from "./chain";
+import { loadIndexedLogs, loadIndexerState, saveIndexedLogs, type IndexedLog } from "./db";
+import type { FeedbackEntry } from "./types";
+
+// --- ERC-8004 Feedback Log Indexer ---
+//
+// Backfills FeedbackGiven events from each registry's deployment block, then
+// follows the chain head so feedback can be served without per-agent reads.
+// Every configured chain is indexed independently. Indexed entries and the
+// last processed block are kept in SQLite, so a restart only catches up on
+// the blocks it missed.
+
+const LOG_CHUNK = BigInt(process.env.INDEXER_LOG_CHUNK || "2000");
+const POLL_INTERVAL = parseInt(process.env.INDEXER_POLL_MS || "15000", 10);
+// Stay a few blocks behind head so shallow reorgs don't leave phantom entries
+const CONFIRMATIONS = BigInt(process.env.INDEXER_CONFIRMATIONS || "3");
+
+type FeedbackListener = (chainId: number, agent: string, entry: FeedbackEntry) => void;
+
+interface ChainIndex {
+  chain: RegistryChain;
+  feedbackStore: Map<string, FeedbackEntry[]>;
+  seenLogs: Set<string>;
+  deployBlock: bigint | null;
+  lastIndexedBlock: bigint | null;
+  backfilled: boolean;
+  lastError: string | null;
+}
+
+const logKey = (txHash: string, logIndex: number) => `${txHash}:${logIndex}`;
+
+function addToStore(index: ChainIndex, log: IndexedLog): void {
+  index.seenLogs.add(logKey(log.txHash, log.logIndex));
+  if (!index.feedbackStore.has(log.agent)) index.feedbackStore.set(log.agent, []);
+  index.feedbackStore.get(log.agent)!.push(log.entry);
+}
+
+// Picks up where the last run stopped; it still counts as backfilling until it reaches the head again
+function loadIndex(chain: RegistryChain): ChainIndex {
+  const state = loadIndexerState(chain.chainId);
+  const index: ChainIndex = {
+    chain,
+    feedbackStore: new Map(),
+    seenLogs: new Set(),
+    deployBlock: chain.deployBlock ?? (state.deployBlock !== null ? BigInt(state.deployBlock) : null),
+    lastIndexedBlock: state.lastBlock !== null ? BigInt(state.lastBlock) : null,
+    backfilled: false,
+    lastError: null,
+  };
+  for (const log of loadIndexedLogs(chain.chainId)) addToStore(index, log);
+  return index;
+}
+
+const indexes = new Map<number, ChainIndex>(CHAINS.map((chain) => [chain.chainId, loadIndex(chain)]));
+const listeners: FeedbackListener[] = [];
+
+let running = false;
+
+/** Registers a callback invoked for each feedback entry indexed after the chain's backfill; history doesn't notify. */
+export function onNewFeedback(listener: FeedbackListener): void {
+  listeners.push(listener);
+}
+
+/** True once the chain's backfill has reached its head and the store can be trusted. */
+export function indexerReady(chainId: number): boolean {
+  return indexes.get(chainId)?.backfilled ?? false;
+}
+
+/** Full feedback history for an agent on one chain, oldest first. */
+export function getIndexedFeedback(chainId: number, address: string): FeedbackEntry[] {
+  return indexes.get(chainId)?.feedbackStore.get(address.toLowerCase()) || [];
+}
+
+/** Lowercased addresses of every agent that has received feedback on a chain. */
+export function getIndexedAgents(chainId: number): string[] {
+  return [...(indexes.get(chainId)?.feedbackStore.keys() || [])];
+}
+
+export function indexerStatus(chainId: number) {
+  const index = indexes.get(chainId);
+  if (!index) return null;
+  let feedbackCount = 0;
+  for (const entries of index.feedbackStore.values()) feedbackCount += entries.length;
+  return {
+    ready: index.backfilled,
+    fromBlock: index.deployBlock?.toString() ?? null,
+    lastIndexedBlock: index.lastIndexedBlock?.toString() ?? null,
+    agents: index.feedbackStore.size,
+    feedbackCount,
+    lastError: index.lastError,
+  };
+}
+
+// Binary-search the first block with registry bytecode
+async function findDeployBlock(chain: RegistryChain, head: bigint): Promise<bigint> {
+  let lo = 0n;
+  let hi = head;
+  while (lo < hi) {
+    const mid = (lo + hi) / 2n;
+    const code = await chain.client.getCode({ address: chain.registry, blockNumber: mid });
+    if (code && code !== "0x") hi = mid;
+    else lo = mid + 1n;
+  }
+  return lo;
+}
+
+// Stores a chunk's new entries with the block it ends at, then adds them to memory
+function ingest(index: ChainIndex, logs: Log<bigint, number, false, typeof FEEDBACK_EVENT>[], end: bigint): void {
+  const { chainId } = index.chain;
+  const fresh: IndexedLog[] = [];
+  for (const log of logs) {
+    const { agent, from, score, comment, timestamp } = log.args;
+    if (!agent || !log.transactionHash || index.seenLogs.has(logKey(log.transactionHash, log.logIndex))) continue;
+    fresh.push({
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      blockNumber: Number(log.blockNumber ?? end),
+      agent: agent.toLowerCase(),
+      entry: {
+        from: String(from || ""),
+        score: Number(score || 0),
+        comment: String(comment || ""),
+        timestamp: Number(timestamp || 0),
+      },
+    });
+  }
+  saveIndexedLogs(chainId, fresh, {
+    deployBlock: index.deployBlock === null ? null : Number(index.deployBlock),
+    lastBlock: Number(end),
+  });
+  index.lastIndexedBlock = end;
+
+  for (const log of fresh) {
+    addToStore(index, log);
+    if (!index.backfilled) continue;
+    for (const listener of listeners) {
+      try {
+        listener(chainId, log.agent, log.entry);
+      } catch {
+        // a misbehaving listener must not stall indexing
+      }
+    }
+  }
+}
+
+// Walk [from, to] in chunks, halving the span when the RPC rejects a range
+async function indexRange(index: ChainIndex, from: bigint, to: bigint): Promise<void> {
+  const { client, registry } = index.chain;
+  let start = from;
+  let span = LOG_CHUNK;
+
+  while (start <= to) {
+    const end = start + span - 1n < to ? start + span - 1n : to;
+    let logs;
+    try {
+      logs = await client.getLogs({
+        address: registry,
+        event: FEEDBACK_EVENT,
+        fromBlock: start,
+        toBlock: end,
+        strict: false,
+      });
+    } catch (err) {
+      if (span > 1n) {
+        span = span / 2n;
+        continue;
+      }
+      throw err;
+    }
+
+    ingest(index, logs, end);
+    start = end + 1n;
+    if (span < LOG_CHUNK) span = span * 2n;
+  }
+}
+
+/** Indexes everything between a chain's last indexed block and its confirmed head. */
+export async function syncToHead(chainId: number): Promise<void> {
+  const index = indexes.get(chainId);
+  if (!index) throw new Error(`Chain ${chainId} is not configured`);
+
+  const head = await index.chain.client.getBlockNumber();
+  const target = head > CONFIRMATIONS ? head - CONFIRMATIONS : head;
+
+  if (index.deployBlock === null) {
+    index.deployBlock = await findDeployBlock(index.chain, target);
+    const lastBlock = index.lastIndexedBlock === null ? null : Number(index.lastIndexedBlock);
+    saveIndexedLogs(chainId, [], { deployBlock: Number(index.deployBlock), lastBlock });
+  }
+  const from = index.lastIndexedBlock === null ? index.deployBlock : index.lastIndexedBlock + 1n;
+  if (from <= target) await indexRange(index, from, target);
+
+  if (!index.backfilled) {
+    index.backfilled = true;
+    console.log(
+      `Feedback indexer caught up on ${index.chain.key} at block ${target} (${indexerStatus(chainId)!.feedbackCount} entries)`
+    );
+  }
+}
+
+/** Starts the backfill on every chain and keeps polling for new blocks. Safe to call once at boot. */
+export function startIndexer(): void {
+  if (running) return;
+  running = true;
+
+  for (const index of indexes.values()) {
+    const tick = async () => {
+      try {
+        await syncToHead(index.chain.chainId);
+        index.lastError = null;
+      } catch (err) {
+        index.lastError = err instanceof Error ? err.message : String(err);
+        console.error(`Feedback indexer error on ${index.chain.key}: ${index.lastError}`);
+      }
+      setTimeout(tick, POLL_INTERVAL);
+    };
+    tick();
+  }
+}
@@ -0,0 +1,128 @@
+// --- Metrics ---
+//
+// Process-wide counters and histograms, rendered in the Prometheus text
+// format at /metrics. Label values are kept to small, fixed sets (route
+// templates, RPC methods, chain keys) so series don't grow with traffic.
+
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+  /** Histograms only: cumulative counts per bucket bound, and the sum of observations */
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "histogram" | "gauge";
+  bounds?: number[];
+  series: Map<string, Series>;
+  /** Gauges only: computed when scraped */
+  collect?: () => Series[];
+}
+
+const registry: Metric[] = [];
+
+// Seconds; covers cached reads through slow archive-node log scans
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function register(metric: Omit<Metric, "series">): Metric {
+  const entry = { ...metric, series: new Map<string, Series>() };
+  registry.push(entry);
+  return entry;
+}
+
+function seriesFor(metric: Metric, labels: Labels): Series {
+  const key = JSON.stringify(labels);
+  let series = metric.series.get(key);
+  if (!series) {
+    series = { labels, value: 0 };
+    if (metric.bounds) {
+      series.buckets = metric.bounds.map(() => 0);
+      series.sum = 0;
+    }
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+function counter(name: string, help: string) {
+  const metric = register({ name, help, type: "counter" });
+  return {
+    inc: (labels: Labels = {}, by = 1) => void (seriesFor(metric, labels).value += by),
+    series: () => [...metric.series.values()],
+  };
+}
+
+function histogram(name: string, help: string, bounds = LATENCY_BUCKETS) {
+  const metric = register({ name, help, type: "histogram", bounds });
+  return {
+    observe(labels: Labels, value: number) {
+      const series = seriesFor(metric, labels);
+      series.value++;
+      series.sum! += value;
+      bounds.forEach((bound, i) => {
+        if (value <= bound) series.buckets![i]++;
+      });
+    },
+  };
+}
+
+export const httpRequests = counter("http_requests_total", "HTTP requests by route template and status");
+export const httpDuration = histogram("http_request_duration_seconds", "HTTP request latency by route template");
+export const rateLimited = counter("http_rate_limited_total", "Requests rejected by a rate limit, by bucket scope");
+export const apiKeyRequests = counter("api_key_requests_total", "API requests per API key name");
+export const rpcCalls = counter("rpc_calls_total", "JSON-RPC calls by chain, method and outcome");
+export const rpcDuration = histogram("rpc_call_duration_seconds", "JSON-RPC call latency by chain and method");
+export const cacheLookups = counter("cache_lookups_total", "Cache lookups by cache and result (hit or miss)");
+export const bountyApiRequests = counter("bounty_api_requests_total", "Requests to the bounty board API");
+export const bountyApiErrors = counter("bounty_api_errors_total", "Failed bounty board API requests by reason");
+
+function gauge(name: string, help: string, collect: () => Series[]) {
+  register({ name, help, type: "gauge", collect });
+}
+
+// Lifetime ratio per cache, for dashboards that don't want to divide counters themselves
+gauge("cache_hit_ratio", "Share of cache lookups served from the cache, by cache", () => {
+  const totals = new Map<string, { hits: number; all: number }>();
+  for (const { labels, value } of cacheLookups.series()) {
+    const entry = totals.get(labels.cache) ?? { hits: 0, all: 0 };
+    entry.all += value;
+    if (labels.result === "hit") entry.hits += value;
+    totals.set(labels.cache, entry);
+  }
+  return [...totals].map(([cache, t]) => ({ labels: { cache }, value: t.all > 0 ? t.hits / t.all : 0 }));
+});
+
+const escapeLabel = (v: string) => v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const pairs = Object.entries({ ...labels, ...extra }).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/** Every registered metric in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+    for (const series of metric.collect?.() ?? metric.series.values()) {
+      if (metric.type !== "histogram") {
+        lines.push(`${metric.name}${formatLabels(series.labels)} ${series.value}`);
+        continue;
+      }
+      metric.bounds!.forEach((bound, i) =>
+        lines.push(`${metric.name}_bucket${formatLabels(series.labels, { le: String(bound) })} ${series.buckets![i]}`)
+      );
+      lines.push(
+        `${metric.name}_bucket${formatLabels(series.labels, { le: "+Inf" })} ${series.value}`,
+        `${metric.name}_sum${formatLabels(series.labels)} ${series.sum}`,
+        `${metric.name}_count${formatLabels(series.labels)} ${series.value}`
+      );
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,338 @@
+import type { Server } from "bun";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { addApiUsage, loadApiUsage, type ApiUsageRow } from "./db";
+import { apiKeyRequests, httpDuration, httpRequests, rateLimited } from "./metrics";
+
+// --- API Access ---
+//
+// Wraps the server's fetch handler. /api/* requests are checked against API
+// keys and token-bucket rate limits: keyed requests draw from their key's
+// bucket, anonymous ones from their client IP's. Keyed usage is metered per
+// UTC day. Every request is counted in /metrics and, unless LOG_REQUESTS is
+// false, logged as one JSON line. When keys are required, the app's own pages
+// reach the API through a signed session cookie instead.
+
+// API_KEYS="name:key,other:key2"; logs, metrics and usage only ever show the name
+const API_KEYS = loadApiKeys(process.env.API_KEYS || "");
+const API_KEY_REQUIRED = process.env.API_KEY_REQUIRED === "true";
+const IP_RATE = parseInt(process.env.RATE_LIMIT_IP_PER_MIN || "120", 10);
+const IP_BURST = parseInt(process.env.RATE_LIMIT_IP_BURST || "60", 10);
+const KEY_RATE = parseInt(process.env.RATE_LIMIT_KEY_PER_MIN || "1200", 10);
+const KEY_BURST = parseInt(process.env.RATE_LIMIT_KEY_BURST || "200", 10);
+// Behind a reverse proxy the socket address is the proxy's; take the client from X-Forwarded-For instead.
+// Each proxy appends the address it saw, so the client is TRUST_PROXY_HOPS entries from the right; anything
+// further left was sent by the client and can be anything.
+const TRUST_PROXY = process.env.TRUST_PROXY === "true";
+const TRUST_PROXY_HOPS = Math.max(1, parseInt(process.env.TRUST_PROXY_HOPS || "1", 10) || 1);
+const LOG_REQUESTS = process.env.LOG_REQUESTS !== "false";
+const USAGE_FLUSH_INTERVAL = parseInt(process.env.API_USAGE_FLUSH_MS || "10000", 10);
+const PAGE_SESSION_TTL = parseInt(process.env.PAGE_SESSION_TTL_MS || "86400000", 10);
+// Shared by every instance behind one hostname, so a session from one is accepted by the others
+const PAGE_SESSION_SECRET = process.env.PAGE_SESSION_SECRET || randomBytes(32).toString("hex");
+const PAGE_SESSION_COOKIE = "page_session";
+
+type Handler = (req: Request, server: Server<undefined>) => Promise<Response>;
+
+function loadApiKeys(config: string): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const entry of config.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const colon = entry.indexOf(":");
+    const key = entry.slice(colon + 1);
+    // Only the name goes in the message; the key may be a real secret
+    if (colon <= 0 || !key) throw new Error(`API_KEYS entries must be name:key (check the entry for "${entry.split(":")[0]}")`);
+    keys.set(key, entry.slice(0, colon));
+  }
+  return keys;
+}
+
+// --- Rate Limits ---
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+/**
+ * Takes one token from the bucket `id`, refilled at `perMinute` up to
+ * `burst`. A rate of 0 turns the limit off.
+ */
+function take(id: string, perMinute: number, burst: number, now: number) {
+  if (perMinute <= 0) return { ok: true, limit: 0, remaining: 0, retryAfter: 0 };
+  const bucket = buckets.get(id) ?? { tokens: burst, updatedAt: now };
+  bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) * perMinute) / 60_000);
+  bucket.updatedAt = now;
+  buckets.set(id, bucket);
+
+  if (bucket.tokens < 1) {
+    const retryAfter = Math.ceil(((1 - bucket.tokens) * 60) / perMinute);
+    return { ok: false, limit: perMinute, remaining: 0, retryAfter };
+  }
+  bucket.tokens -= 1;
+  return { ok: true, limit: perMinute, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+}
+
+// A bucket that has refilled completely is the same as no bucket
+function sweepBuckets(now: number): void {
+  for (const [id, bucket] of buckets) {
+    const [rate, burst] = id.startsWith("key:") ? [KEY_RATE, KEY_BURST] : [IP_RATE, IP_BURST];
+    if (bucket.tokens + ((now - bucket.updatedAt) * rate) / 60_000 >= burst) buckets.delete(id);
+  }
+}
+
+function clientIp(req: Request, server: Server<undefined>): string {
+  if (TRUST_PROXY) {
+    const forwarded = (req.headers.get("X-Forwarded-For") ?? "")
+      .split(",")
+      .map((a) => a.trim())
+      .filter(Boolean);
+    // Fewer entries than hops means the request didn't come through every proxy; use the socket instead
+    if (forwarded.length >= TRUST_PROXY_HOPS) return forwarded[forwarded.length - TRUST_PROXY_HOPS];
+  }
+  return server.requestIP(req)?.address ?? "unknown";
+}
+
+function presentedKey(req: Request): string | null {
+  const header = req.headers.get("X-API-Key");
+  if (header) return header;
+  const auth = req.headers.get("Authorization");
+  return auth?.startsWith("Bearer ") ? auth.slice("Bearer ".length) : null;
+}
+
+/** Name of the API key on the request; null when none or an unknown one is presented. */
+export function apiKeyName(req: Request): string | null {
+  const key = presentedKey(req);
+  return key ? API_KEYS.get(key) ?? null : null;
+}
+
+// --- Usage Metering ---
+
+// Counted in memory and added to the api_usage table every flush interval
+const pendingUsage = new Map<string, ApiUsageRow>();
+
+function meter(keyName: string, now: number, limited: boolean): void {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const id = `${keyName}\n${day}`;
+  const row = pendingUsage.get(id) ?? { keyName, day, requests: 0, rateLimited: 0 };
+  row.requests++;
+  if (limited) row.rateLimited++;
+  pendingUsage.set(id, row);
+}
+
+function flushUsage(): void {
+  if (pendingUsage.size === 0) return;
+  const rows = [...pendingUsage.values()];
+  pendingUsage.clear();
+  addApiUsage(rows);
+}
+
+/** Daily request counts for one key over the last `days` days, including unflushed ones. */
+export function apiUsage(keyName: string, days = 30): ApiUsageRow[] {
+  flushUsage();
+  const from = new Date(Date.now() - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+  return loadApiUsage(keyName, from);
+}
+
+export function startUsageMeter(): void {
+  setInterval(() => {
+    flushUsage();
+    sweepBuckets(Date.now());
+  }, USAGE_FLUSH_INTERVAL);
+}
+
+export function apiAccessStatus() {
+  return {
+    keyRequired: API_KEY_REQUIRED,
+    keys: API_KEYS.size,
+    limits: {
+      ip: { perMinute: IP_RATE, burst: IP_BURST },
+      key: { perMinute: KEY_RATE, burst: KEY_BURST },
+    },
+    trackedClients: buckets.size,
+  };
+}
+
+// --- Request Handling ---
+
+// Metrics label by route template, so addresses and names don't each become a series
+const ROUTE_TEMPLATES: Array<[RegExp, string]> = [
+  [/^\/api\/agent\/[^/]+\/(stats|history|risk|feedback)$/, "/api/agent/:address/$1"],
+  [/^\/api\/agent\/[^/]+\/feedback\/prepare$/, "/api/agent/:address/feedback/prepare"],
+  [/^\/api\/agent\/[^/]+$/, "/api/agent/:address"],
+  [/^\/api\/identity\/[^/]+$/, "/api/identity/:address"],
+  [/^\/api\/reputation\/[^/]+$/, "/api/reputation/:address"],
+  [/^\/api\/leaderboard\/tag\/.+$/, "/api/leaderboard/tag/:tag"],
+  [/^\/api\/subscriptions\/[^/]+$/, "/api/subscriptions/:id"],
+  [/^\/api\/export\/[^/]+$/, "/api/export/:file"],
+  [/^\/agent\/[^/]+$/, "/agent/:address"],
+  [/^\/badge\/[^/]+\.svg$/, "/badge/:address.svg"],
+  [/^\/og\/[^/]+\.png$/, "/og/:address.png"],
+  [/^\/assets\/[^/]+$/, "/assets/:file"],
+];
+const STATIC_ROUTES = new Set([
+  "/",
+  "/index.html",
+  "/compare",
+  "/health",
+  "/metrics",
+  "/api/agents",
+  "/api/compare",
+  "/api/eligibility",
+  "/api/eligibility/signer",
+  "/api/stats",
+  "/api/stream",
+  "/api/usage",
+  "/api/subscriptions",
+  "/api/leaderboard/tags",
+  "/api/payments/reconciliation",
+]);
+
+function routeLabel(pathname: string): string {
+  if (STATIC_ROUTES.has(pathname)) return pathname;
+  for (const [pattern, template] of ROUTE_TEMPLATES) {
+    if (pattern.test(pathname)) return pathname.replace(pattern, template);
+  }
+  return "other";
+}
+
+// --- Page Sessions ---
+//
+// Pages draw their charts and live updates from the API, so when keys are
+// required each page response sets an HttpOnly, SameSite=Strict cookie signed
+// for the client's IP and an expiry. Requests carrying a valid one need no key
+// for the read endpoints those scripts call, and still use the per-IP limit.
+// Anyone can load a page, so API_KEY_REQUIRED doesn't protect these endpoints;
+// it protects everything else (exports, eligibility, usage, subscriptions...).
+
+// What dashboard.js, profile.js and compare.js fetch
+const PAGE_SESSION_ROUTES = [
+  /^\/api\/agents$/,
+  /^\/api\/stats$/,
+  /^\/api\/stream$/,
+  /^\/api\/compare$/,
+  /^\/api\/agent\/[^/]+(?:\/(?:stats|history|feedback|feedback\/prepare))?$/,
+];
+
+const signSession = (payload: string) => createHmac("sha256", PAGE_SESSION_SECRET).update(payload).digest("base64url");
+
+function pageSessionCookie(ip: string, now: number): string {
+  const expires = String(now + PAGE_SESSION_TTL);
+  const value = `${expires}.${signSession(`${expires}.${ip}`)}`;
+  return `${PAGE_SESSION_COOKIE}=${value}; Path=/api; Max-Age=${Math.floor(PAGE_SESSION_TTL / 1000)}; HttpOnly; SameSite=Strict`;
+}
+
+function hasPageSession(req: Request, ip: string, now: number): boolean {
+  const path = new URL(req.url).pathname;
+  if (!PAGE_SESSION_ROUTES.some((route) => route.test(path))) return false;
+  const cookie = (req.headers.get("Cookie") ?? "")
+    .split(";")
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(`${PAGE_SESSION_COOKIE}=`));
+  const [expires, signature] = cookie?.slice(PAGE_SESSION_COOKIE.length + 1).split(".") ?? [];
+  if (!expires || !signature || !/^\d+$/.test(expires) || Number(expires) <= now) return false;
+  const expected = Buffer.from(signSession(`${expires}.${ip}`));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+interface AccessCheck {
+  keyName: string | null;
+  /** Rate limit headers added to the response */
+  headers: Record<string, string>;
+  /** Set when the request is refused */
+  response?: Response;
+}
+
+// `requireKey` is false for public images and pages, which are fetched without a key but still cost a render or lookup
+function checkApiAccess(req: Request, ip: string, now: number, requireKey = true): AccessCheck {
+  const key = presentedKey(req);
+  const keyName = key ? API_KEYS.get(key) ?? null : null;
+  if (key && !keyName) return { keyName, headers: {}, response: Response.json({ error: "Invalid API key" }, { status: 401 }) };
+  if (!keyName && API_KEY_REQUIRED && requireKey && !hasPageSession(req, ip, now)) {
+    return {
+      keyName,
+      headers: {},
+      response: Response.json(
+        { error: "API key required (send it in an X-API-Key or Authorization: Bearer header)" },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      ),
+    };
+  }
+
+  const scope = keyName ? "key" : "ip";
+  const result = keyName ? take(`key:${keyName}`, KEY_RATE, KEY_BURST, now) : take(`ip:${ip}`, IP_RATE, IP_BURST, now);
+  if (keyName) {
+    apiKeyRequests.inc({ key: keyName });
+    meter(keyName, now, !result.ok);
+  }
+  const headers: Record<string, string> =
+    result.limit > 0 ? { "X-RateLimit-Limit": String(result.limit), "X-RateLimit-Remaining": String(result.remaining) } : {};
+  if (result.ok) return { keyName, headers };
+
+  rateLimited.inc({ scope });
+  return {
+    keyName,
+    headers,
+    response: Response.json(
+      { error: "Rate limit exceeded" },
+      { status: 429, headers: { ...headers, "Retry-After": String(result.retryAfter) } }
+    ),
+  };
+}
+
+// Pages that take an ENS name or Basename instead of an address cost a mainnet lookup, so they are rate limited too
+function looksUpNames(url: URL): boolean {
+  const profile = url.pathname.match(/^\/agent\/([^/]+)$/);
+  if (profile) return !/^0x/i.test(profile[1]);
+  if (url.pathname !== "/compare") return false;
+  return url.searchParams
+    .getAll("addresses")
+    .flatMap((v) => v.split(","))
+    .some((v) => v.trim() !== "" && !/^0x/i.test(v.trim()));
+}
+
+/** The server's fetch handler with API access checks, metrics and request logging around it. */
+export function withApiAccess(handler: Handler): Handler {
+  return async (req, server) => {
+    const startedAt = performance.now();
+    const now = Date.now();
+    const url = new URL(req.url);
+    const ip = clientIp(req, server);
+
+    let keyName: string | null = null;
+    let response: Response;
+    const isPublic = url.pathname.startsWith("/og/") || looksUpNames(url);
+    if (url.pathname.startsWith("/api/") || isPublic) {
+      const access = checkApiAccess(req, ip, now, !isPublic);
+      keyName = access.keyName;
+      response = access.response ?? (await handler(req, server));
+      for (const [name, value] of Object.entries(access.headers)) response.headers.set(name, value);
+    } else {
+      response = await handler(req, server);
+    }
+    if (API_KEY_REQUIRED && response.headers.get("Content-Type")?.startsWith("text/html")) {
+      response.headers.append("Set-Cookie", pageSessionCookie(ip, now));
+    }
+
+    const seconds = (performance.now() - startedAt) / 1000;
+    const route = routeLabel(url.pathname);
+    httpRequests.inc({ route, method: req.method, status: String(response.status) });
+    httpDuration.observe({ route }, seconds);
+    if (LOG_REQUESTS) {
+      console.log(
+        JSON.stringify({
+          time: new Date(now).toISOString(),
+          method: req.method,
+          path: url.pathname,
+          route,
+          status: response.status,
+          durationMs: Math.round(seconds * 1000 * 10) / 10,
+          ip,
+          key: keyName,
+        })
+      );
+    }
+    return response;
+  };
+}
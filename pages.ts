@@ -0,0 +1,868 @@
+import { getAddress, isAddress } from "viem";
+import { agentStats, boardStats } from "./analytics";
+import { profileMeta } from "./cards";
+import { CHAINS, SCORED_TESTNETS } from "./chain";
+import { agentHistory } from "./history";
+import {
+  COMPARE_COLORS,
+  COMPARE_METRICS,
+  MAX_COMPARE,
+  metricValue,
+  type CompareMetricKey,
+  type ComparedAgent,
+  type Comparison,
+} from "./compare";
+import { cssToken, html, raw, safeUrl, type SafeHtml } from "./html";
+import { getIdentity } from "./identity";
+import { PAYOUT_EXPLORER, tokenInfo } from "./payments";
+import { queryAgents, type AgentQuery, type SortKey } from "./query";
+import { DEFAULT_PROFILE, SCORING_PROFILES } from "./scoring";
+import { FEEDBACK_PAGE_SIZE, analyzeFeedback, type FeedbackAnalysis, type FeedbackFilter } from "./sentiment";
+import { dataFreshness, getAgents, getRiskReport } from "./sync";
+import { TAG_SORT_KEYS, listTags, tagLeaderboard, type TagSortKey } from "./tags";
+import type { AgentIdentity, AgentProfile } from "./types";
+
+// --- Pages ---
+//
+// The dashboard, profile and compare pages are rendered here, on the server, through
+// the escaping `html` tag, so every table works without JavaScript. The
+// browser scripts in client.ts only draw charts, drive the wallet and swap in
+// re-rendered sections (marked data-live) on navigation and live events.
+
+export const PAGE_SIZE = 25;
+
+// An exact Chart.js release, checked against the hash of the file npm publishes; the CDN serves it unchanged
+const CHART_JS = "https://cdn.jsdelivr.net/npm/chart.js@4.5.1/dist/chart.umd.min.js";
+const CHART_JS_INTEGRITY = "sha384-jb8JQMbMoBUzgWatfe6COACi2ljcDdZQ2OxczGA3bGNeWe+6DChMTBJemed7ZnvJ";
+
+// Scripts only from our own /assets and that one Chart.js file: injected markup can't run code.
+// Inline styles stay allowed for the templates' style attributes.
+export const PAGE_CSP = [
+  "default-src 'self'",
+  `script-src 'self' ${CHART_JS}`,
+  "style-src 'self' 'unsafe-inline'",
+  "img-src 'self' https: data:",
+  "connect-src 'self'",
+  "object-src 'none'",
+  "base-uri 'none'",
+  "form-action 'self'",
+  "frame-ancestors 'none'",
+].join("; ");
+
+export interface DashboardView {
+  profile: string;
+  query: AgentQuery;
+  /** Tag shown in the per-tag table; the busiest tag when null or unknown */
+  board: string | null;
+  boardSort: TagSortKey;
+}
+
+function shortAddr(a: string): string {
+  return a ? `${a.slice(0, 6)}...${a.slice(-4)}` : "Unknown";
+}
+
+// Links use the checksummed form, which is what the routes validate against
+const checksummed = (address: string) => (isAddress(address, { strict: false }) ? getAddress(address) : address);
+const profilePath = (address: string) => `/agent/${encodeURIComponent(checksummed(address))}`;
+
+const displayName = (address: string) => getIdentity(address)?.name ?? shortAddr(address);
+
+// An agent card's name is whatever the agent says it is, so it only ever appears beside the address or verified name
+function cardNameOf(id: AgentIdentity | null): string | null {
+  return id?.cardName && id.cardName !== id.name ? id.cardName : null;
+}
+
+function agentLabel(address: string): SafeHtml {
+  const id = getIdentity(address);
+  const cardName = cardNameOf(id);
+  const cardLabel = cardName && html`<span class="addr-sub" title="Name from the agent card, not verified">${cardName}</span>`;
+  if (!id?.name) return html`${shortAddr(address)}${cardLabel}`;
+  return html`${id.avatar && html`<img class="avatar" src="${safeUrl(id.avatar)}" alt="" loading="lazy">`}<span class="agent-name">${id.name}</span><span class="addr-sub">${shortAddr(address)}</span>${cardLabel}`;
+}
+
+const statCards = (cards: Array<{ value: string | number; label: string; color: string }>) =>
+  cards.map(
+    (c) =>
+      html`<div class="stat-card"><div class="value" style="color:${c.color}">${c.value}</div><div class="label">${c.label}</div></div>`
+  );
+
+function rateBadge(rate: number): SafeHtml {
+  const level = rate >= 75 ? "high" : rate >= 50 ? "med" : "low";
+  return html`<span class="badge badge-${level}">${rate}%</span>`;
+}
+
+function riskBadge(risk: AgentProfile["risk"]): SafeHtml | null {
+  if (risk.level === "none") return null;
+  return html`<span class="risk risk-${cssToken(risk.level)}" title="Possible gaming: ${risk.flags.join(", ")}">⚠ ${risk.level}</span>`;
+}
+
+function rankArrow(change: number | null): SafeHtml | null {
+  if (!change) return null;
+  return change > 0
+    ? html`<span class="rank-move rank-up">▲${change}</span>`
+    : html`<span class="rank-move rank-down">▼${-change}</span>`;
+}
+
+const scoreTitle = (a: AgentProfile) =>
+  Object.entries(a.scoreBreakdown)
+    .map(([k, c]) => `${k}: ${c.points} pts (${Math.round(c.value * 100)}% x ${c.weight})`)
+    .join("\n");
+
+// Totals add up bounties of every token, so they are labelled with the default payout token
+const amount = (v: number, digits = 2) => `${v.toFixed(digits)} ${tokenInfo().symbol}`;
+const hours = (h: number | null) => (h === null ? "--" : h < 48 ? `${h.toFixed(1)}h` : `${(h / 24).toFixed(1)}d`);
+
+const feedbackScore = (score: number) =>
+  html`<span class="feedback-score ${score > 0 ? "positive" : "negative"}">${score > 0 ? "+" : ""}${score}</span>`;
+
+// --- Dashboard ---
+
+// Non-default parameters only, so links stay short
+function dashboardState(v: DashboardView): Record<string, string> {
+  const state: Record<string, string | number | null> = {
+    score: v.profile === DEFAULT_PROFILE ? null : v.profile,
+    sort: v.query.sort === "score" ? null : v.query.sort,
+    order: v.query.order === "desc" ? null : v.query.order,
+    offset: v.query.offset || null,
+    limit: v.query.limit === PAGE_SIZE ? null : v.query.limit,
+    tag: v.query.tag,
+    minCompleted: v.query.minCompleted || null,
+    search: v.query.search,
+    board: v.board,
+    boardSort: v.boardSort === "completed" ? null : v.boardSort,
+  };
+  return Object.fromEntries(
+    Object.entries(state)
+      .filter(([, value]) => value !== null && value !== "")
+      .map(([key, value]) => [key, String(value)])
+  );
+}
+
+function dashboardHref(v: DashboardView, changes: Record<string, string | number | null>): string {
+  const params = new URLSearchParams(dashboardState(v));
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) params.delete(key);
+    else params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return qs ? `/?${qs}` : "/";
+}
+
+// Keeps the rest of the page's state when a form only sets some parameters
+const hiddenInputs = (v: DashboardView, omit: string[]) =>
+  Object.entries(dashboardState(v))
+    .filter(([key]) => !omit.includes(key))
+    .map(([key, value]) => html`<input type="hidden" name="${key}" value="${value}">`);
+
+function sortHeader(v: DashboardView, key: SortKey, label: string, title?: string): SafeHtml {
+  const active = v.query.sort === key;
+  const order = active && v.query.order === "desc" ? "asc" : "desc";
+  const arrow = active ? (v.query.order === "desc" ? " ▼" : " ▲") : "";
+  return html`<th class="${active ? "sorted" : ""}"${title && html` title="${title}"`}><a data-nav href="${dashboardHref(v, { sort: key, order, offset: null })}">${label}${arrow}</a></th>`;
+}
+
+// The checkboxes belong to #compareForm, so the selection submits as repeated `addresses` params without JS
+function leaderboardRow(a: AgentProfile): SafeHtml {
+  const feedback = a.recentFeedback.length;
+  return html`<tr data-href="${profilePath(a.address)}"><td class="pick"><input type="checkbox" name="addresses" value="${checksummed(a.address)}" form="compareForm" aria-label="Compare ${displayName(a.address)}"></td><td class="rank${a.rank <= 3 ? ` rank-${a.rank}` : ""}">#${a.rank}${rankArrow(a.rankChange)}</td><td><a class="addr-link" href="${profilePath(a.address)}">${agentLabel(a.address)}</a>${riskBadge(a.risk)}</td><td class="score" title="${scoreTitle(a)}">${a.score.toFixed(1)}</td><td class="rep-score">${a.onChainReputation}</td><td class="earnings">${amount(a.totalEarnings)}</td><td>${a.bountiesCompleted}</td><td>${rateBadge(a.successRate)}</td><td>${feedback > 0 ? html`<span class="badge badge-high">${feedback} entries</span>` : html`<span class="muted">none</span>`}</td></tr>`;
+}
+
+function pager(v: DashboardView, shown: number, total: number, hasNext: boolean): SafeHtml {
+  const { offset } = v.query;
+  const limit = v.query.limit ?? PAGE_SIZE;
+  const prev = offset > 0 ? dashboardHref(v, { offset: Math.max(0, offset - limit) || null }) : null;
+  const next = hasNext ? dashboardHref(v, { offset: offset + limit }) : null;
+  return html`<div class="pager" id="pager" data-live><span>${total > 0 ? `${offset + 1}-${offset + shown} of ${total}` : ""}</span>${prev ? html`<a data-nav href="${prev}">Prev</a>` : html`<span class="disabled">Prev</span>`}${next ? html`<a data-nav href="${next}">Next</a>` : html`<span class="disabled">Next</span>`}</div>`;
+}
+
+function exportLinks(v: DashboardView): SafeHtml {
+  const params = new URLSearchParams({ score: v.profile });
+  if (v.query.search) params.set("search", v.query.search);
+  const links = ["agents", "bounties", "feedback"].flatMap((d) =>
+    ["csv", "jsonl"].map(
+      (f) => html`<a href="/api/export/${d}.${f}?${params.toString()}" download>${d[0].toUpperCase() + d.slice(1)} (${f.toUpperCase()})</a>`
+    )
+  );
+  return html`<details class="downloads" id="downloads" data-live><summary>Download</summary><div>${links}</div></details>`;
+}
+
+function tagBoard(v: DashboardView, agents: AgentProfile[]): SafeHtml {
+  const tags = listTags(agents);
+  if (tags.length === 0) return html`<div class="leaderboard" id="tagBoard" data-live hidden></div>`;
+  const tag = tags.find((t) => t.tag.toLowerCase() === v.board?.toLowerCase())?.tag ?? tags[0].tag;
+  const entries = tagLeaderboard(agents, tag, v.boardSort).slice(0, 10);
+  const sortLabels: Record<TagSortKey, string> = { completed: "Completed", earnings: "Earnings", successRate: "Success rate" };
+
+  return html`<div class="leaderboard" id="tagBoard" data-live>
+    <div class="leaderboard-header">
+      <span>Best Agents by Tag</span>
+      <form method="get" action="/" data-nav-form>
+        ${hiddenInputs(v, ["board", "boardSort"])}
+        <select name="board">${tags.map((t) => html`<option value="${t.tag}"${t.tag === tag && " selected"}>${t.tag} (${t.completed} completed)</option>`)}</select>
+        <select name="boardSort">${TAG_SORT_KEYS.map((k) => html`<option value="${k}"${k === v.boardSort && " selected"}>${sortLabels[k]}</option>`)}</select>
+        <noscript><button type="submit">Show</button></noscript>
+      </form>
+    </div>
+    <table>
+      <thead><tr><th>Rank</th><th>Agent ID</th><th>Completed</th><th>Earnings</th><th>Success Rate</th><th>Overall Rank</th></tr></thead>
+      <tbody>${entries.map((e) => html`<tr><td class="rank">#${e.rank}</td><td><a class="addr-link" href="${profilePath(e.address)}">${agentLabel(e.address)}</a></td><td>${e.completed} / ${e.claimed}</td><td class="earnings">${amount(e.earnings)}</td><td>${rateBadge(e.successRate)}</td><td>#${e.overallRank}</td></tr>`)}</tbody>
+    </table>
+  </div>`;
+}
+
+function recentFeedback(agents: AgentProfile[]): SafeHtml {
+  const feed = agents
+    .flatMap((a) => a.recentFeedback.map((f) => ({ ...f, agent: a.address })))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 10);
+  if (feed.length === 0) {
+    return html`<div id="recentFeedback" data-live><p class="muted">No on-chain feedback recorded yet. Feedback will appear here as agents receive reputation entries on the ERC-8004 registry.</p></div>`;
+  }
+  return html`<div id="recentFeedback" data-live>${feed.map(
+    (f) =>
+      html`<div class="feedback-item">${feedbackScore(f.score)} to <a class="addr-link" href="${profilePath(f.agent)}">${displayName(f.agent)}</a> from ${f.fromName ?? displayName(f.from)}${f.comment && html` — <em>${f.comment}</em>`}</div>`
+  )}</div>`;
+}
+
+/** The dashboard, with the leaderboard page, tag table and feedback feed for the given view. */
+export async function renderDashboard(v: DashboardView): Promise<string> {
+  const agents = await getAgents(v.profile);
+  // Tag tables and analytics are always ranked under the default profile, as in the API
+  const defaultAgents = await getAgents();
+  const page = queryAgents(agents, v.query);
+  const rows = page.items as AgentProfile[];
+  const stats = boardStats();
+  const streak = stats.topStreaks[0];
+  const stale = dataFreshness().state === "stale";
+
+  const totalEarnings = agents.reduce((s, a) => s + a.totalEarnings, 0);
+  const totalRep = agents.reduce((s, a) => s + a.onChainReputation, 0);
+  const avgRate = agents.length > 0 ? Math.round(agents.reduce((s, a) => s + a.successRate, 0) / agents.length) : 0;
+
+  return html`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Agent Reputation Dashboard — ERC-8004</title>
+<script src="${CHART_JS}" integrity="${CHART_JS_INTEGRITY}" crossorigin="anonymous"></script>
+<script src="/assets/dashboard.js" defer></script>
+<style>
+  :root { --bg: #0a0b10; --card: #12141f; --card-hover: #1a1d2e; --border: #1e2235; --text: #e0e0e0; --muted: #8890a4; --accent: #6366f1; --accent2: #8b5cf6; --green: #22c55e; --yellow: #eab308; --red: #ef4444; }
+  * { margin: 0; padding: 0; box-sizing: border-box; }
+  body { font-family: 'Inter', -apple-system, sans-serif; background: var(--bg); color: var(--text); min-height: 100vh; }
+  .header { background: linear-gradient(135deg, #1e1b4b 0%, #312e81 50%, #4c1d95 100%); padding: 40px 24px; text-align: center; border-bottom: 1px solid var(--border); }
+  .header h1 { font-size: 32px; font-weight: 700; color: white; margin-bottom: 8px; }
+  .header p { color: rgba(255,255,255,0.7); font-size: 16px; }
+  .header .registry { font-family: monospace; font-size: 12px; color: rgba(255,255,255,0.5); margin-top: 8px; }
+  .container { max-width: 1200px; margin: 0 auto; padding: 24px; }
+  .muted { color: var(--muted); }
+  .stats-row { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 16px; margin-bottom: 32px; }
+  .stale-notice { display: none; background: rgba(234,179,8,0.08); border: 1px solid rgba(234,179,8,0.4); color: #eab308; border-radius: 12px; padding: 12px 16px; margin-bottom: 24px; font-size: 14px; }
+  .stale-notice.show { display: block; }
+  .stat-card { background: var(--card); border: 1px solid var(--border); border-radius: 12px; padding: 24px; text-align: center; transition: transform 0.2s; }
+  .stat-card:hover { transform: translateY(-2px); border-color: var(--accent); }
+  .stat-card .value { font-size: 36px; font-weight: 700; }
+  .stat-card .label { font-size: 13px; color: var(--muted); margin-top: 4px; text-transform: uppercase; }
+  .charts-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; margin-bottom: 32px; }
+  .chart-card { background: var(--card); border: 1px solid var(--border); border-radius: 12px; padding: 24px; }
+  .chart-card h3 { font-size: 15px; color: var(--muted); margin-bottom: 16px; }
+  .leaderboard { background: var(--card); border: 1px solid var(--border); border-radius: 12px; overflow: hidden; margin-bottom: 32px; }
+  .leaderboard-header { padding: 16px 24px; border-bottom: 1px solid var(--border); font-weight: 600; display: flex; justify-content: space-between; align-items: center; gap: 12px; flex-wrap: wrap; }
+  .leaderboard-header form { display: flex; align-items: center; gap: 12px; flex-wrap: wrap; }
+  .leaderboard-header select, .leaderboard-header button { background: var(--bg); color: var(--text); border: 1px solid var(--border); border-radius: 6px; padding: 4px 8px; font-size: 13px; }
+  .leaderboard-header input { background: var(--bg); color: var(--text); border: 1px solid var(--border); border-radius: 6px; padding: 4px 8px; font-size: 13px; font-family: monospace; }
+  .leaderboard-header label { font-weight: 400; color: var(--muted); font-size: 13px; }
+  .score { font-weight: 700; font-family: monospace; cursor: help; }
+  th a { color: inherit; text-decoration: none; }
+  th a:hover, th.sorted { color: var(--text); }
+  .downloads { position: relative; font-weight: 400; font-size: 13px; }
+  .downloads summary { cursor: pointer; color: var(--muted); list-style: none; border: 1px solid var(--border); border-radius: 6px; padding: 4px 12px; }
+  .downloads div { position: absolute; right: 0; top: 32px; z-index: 10; background: var(--card); border: 1px solid var(--border); border-radius: 8px; padding: 8px 0; min-width: 200px; }
+  .downloads a { display: block; padding: 6px 16px; color: var(--text); text-decoration: none; }
+  .downloads a:hover { background: var(--card-hover); }
+  .pager { display: flex; justify-content: flex-end; align-items: center; gap: 12px; padding: 12px 24px; color: var(--muted); font-size: 13px; }
+  .pager a, .pager .disabled { background: var(--bg); color: var(--text); border: 1px solid var(--border); border-radius: 6px; padding: 4px 12px; text-decoration: none; }
+  .pager .disabled { opacity: 0.4; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; padding: 12px 20px; color: var(--muted); font-size: 12px; text-transform: uppercase; border-bottom: 1px solid var(--border); }
+  td { padding: 14px 20px; border-bottom: 1px solid var(--border); font-size: 14px; }
+  tr:hover { background: var(--card-hover); }
+  tr[data-href] { cursor: pointer; }
+  td.pick, th.pick { width: 1px; padding-right: 0; }
+  .compare-bar { display: flex; align-items: center; gap: 12px; padding: 12px 24px 0; color: var(--muted); font-size: 13px; }
+  .compare-bar button { background: var(--accent); color: white; border: none; border-radius: 6px; padding: 4px 12px; font-size: 13px; cursor: pointer; }
+  .compare-bar button:disabled { opacity: 0.4; cursor: default; }
+  td.empty { text-align: center; color: #666; }
+  .rank { font-weight: 700; color: var(--accent); }
+  .rank-1 { color: #fbbf24; }
+  .rank-2 { color: #9ca3af; }
+  .rank-3 { color: #cd7f32; }
+  .rank-move { font-size: 11px; font-weight: 600; margin-left: 4px; }
+  .rank-up { color: var(--green); }
+  .rank-down { color: var(--red); }
+  .addr-link { color: var(--accent2); text-decoration: none; font-family: monospace; font-size: 13px; }
+  .addr-link:hover { text-decoration: underline; }
+  .avatar { width: 20px; height: 20px; border-radius: 50%; object-fit: cover; vertical-align: middle; margin-right: 6px; }
+  .agent-name { font-family: inherit; font-weight: 600; }
+  .addr-sub { color: var(--muted); font-size: 11px; margin-left: 6px; }
+  .badge { display: inline-block; padding: 3px 10px; border-radius: 100px; font-size: 12px; }
+  .badge-high { background: rgba(34,197,94,0.15); color: var(--green); }
+  .badge-med { background: rgba(234,179,8,0.15); color: var(--yellow); }
+  .badge-low { background: rgba(239,68,68,0.15); color: var(--red); }
+  .earnings { font-weight: 600; color: var(--green); }
+  .risk { display: inline-block; margin-left: 6px; padding: 1px 6px; border-radius: 100px; font-size: 11px; font-weight: 600; cursor: help; }
+  .risk-low { background: rgba(234,179,8,0.15); color: var(--yellow); }
+  .risk-medium { background: rgba(249,115,22,0.15); color: #f97316; }
+  .risk-high { background: rgba(239,68,68,0.2); color: var(--red); }
+  .rep-score { font-weight: 600; color: var(--accent); font-family: monospace; }
+  .tag { display: inline-block; background: rgba(99,102,241,0.15); color: var(--accent); padding: 2px 8px; border-radius: 100px; font-size: 11px; margin: 1px; }
+  .feedback-section { background: var(--card); border: 1px solid var(--border); border-radius: 12px; padding: 24px; margin-bottom: 32px; }
+  .feedback-section h3 { margin-bottom: 16px; color: var(--muted); }
+  .feedback-item { padding: 12px 0; border-bottom: 1px solid var(--border); }
+  .feedback-item:last-child { border-bottom: none; }
+  .feedback-score { font-weight: 600; }
+  .feedback-score.positive { color: var(--green); }
+  .feedback-score.negative { color: var(--red); }
+  @media (max-width: 768px) { .charts-grid { grid-template-columns: 1fr; } .header h1 { font-size: 24px; } }
+</style>
+</head>
+<body data-default-profile="${DEFAULT_PROFILE}" data-token="${tokenInfo().symbol}">
+<div class="header">
+  <h1>Agent Reputation Dashboard</h1>
+  <p>On-chain reputation scores from ERC-8004 Reputation Registries on ${CHAINS.map((c) => c.name).join(", ")}</p>
+  ${CHAINS.map((c) => html`<div class="registry">${c.name}: ${c.registry}</div>`)}
+</div>
+<div class="container">
+  <div class="stale-notice${stale ? " show" : ""}" id="staleNotice" data-live>The bounty board API is unreachable; showing data from the last successful sync.</div>
+  <div class="stats-row" id="globalStats" data-live>${statCards([
+    { value: agents.length, label: "Active Agents", color: "#6366f1" },
+    { value: totalRep, label: "Total On-Chain Rep", color: "#8b5cf6" },
+    { value: amount(totalEarnings, 0), label: "Total Distributed", color: "#22c55e" },
+    { value: `${avgRate}%`, label: "Avg Success Rate", color: "#eab308" },
+  ])}</div>
+  <div class="charts-grid">
+    <div class="chart-card"><h3>Top Agents by On-Chain Reputation</h3><canvas id="repChart"></canvas></div>
+    <div class="chart-card"><h3>Success Rate Distribution</h3><canvas id="successChart"></canvas></div>
+    <div class="chart-card"><h3>Earnings vs Reputation</h3><canvas id="scatterChart"></canvas></div>
+    <div class="chart-card"><h3>Bounties by Status</h3><canvas id="statusChart"></canvas></div>
+  </div>
+  <div class="stats-row" id="perfStats" data-live>${statCards([
+    { value: hours(stats.turnaround.medianHours), label: "Median Time to Complete", color: "#6366f1" },
+    { value: hours(stats.turnaround.p90Hours), label: "P90 Time to Complete", color: "#8b5cf6" },
+    { value: `${stats.abandonmentRate}%`, label: "Claim Abandonment", color: "#ef4444" },
+    {
+      value: streak ? `${streak.current} wk` : "--",
+      label: `Longest Active Streak${streak ? ` (${displayName(streak.address)})` : ""}`,
+      color: "#eab308",
+    },
+  ])}</div>
+  <div class="charts-grid">
+    <div class="chart-card"><h3>Activity Over Time</h3><canvas id="activityChart"></canvas></div>
+    <div class="chart-card"><h3>Active Agents per Month</h3><canvas id="activeChart"></canvas></div>
+  </div>
+  <div class="leaderboard">
+    <div class="leaderboard-header">
+      <span>Top-Rated Agents</span>
+      <form method="get" action="/" id="leaderboardForm" data-nav-form>
+        ${hiddenInputs(v, ["search", "score", "offset"])}
+        <input id="search" name="search" type="search" placeholder="Search address or name" value="${v.query.search ?? ""}">
+        <label>Scoring profile
+          <select name="score">${Object.keys(SCORING_PROFILES).map((p) => html`<option value="${p}"${p === v.profile && " selected"}>${p}</option>`)}</select>
+        </label>
+        <noscript><button type="submit">Apply</button></noscript>
+      </form>
+      ${exportLinks(v)}
+    </div>
+    <table>
+      <thead id="leaderboardHead" data-live><tr><th class="pick" title="Select agents to compare"></th><th title="Arrows show movement over the past week">Rank</th><th>Agent ID</th>${sortHeader(v, "score", "Score", "Composite reputation score (0-100); hover a score for its breakdown")}${sortHeader(v, "reputation", "On-Chain Rep")}${sortHeader(v, "earnings", "Earnings")}${sortHeader(v, "completed", "Completed")}${sortHeader(v, "successRate", "Success Rate")}<th>Recent Feedback</th></tr></thead>
+      <tbody id="leaderboard" data-live>${rows.length > 0 ? rows.map(leaderboardRow) : html`<tr><td colspan="9" class="empty">No agents found</td></tr>`}</tbody>
+    </table>
+    <form class="compare-bar" id="compareForm" method="get" action="/compare" data-max="${MAX_COMPARE}">
+      <button type="submit" id="compareBtn">Compare selected</button>
+      <span id="compareHint">Tick 2-${MAX_COMPARE} agents to compare them side by side</span>
+    </form>
+    ${pager(v, rows.length, page.total, !!page.nextCursor)}
+  </div>
+  ${tagBoard(v, defaultAgents)}
+  <div class="feedback-section">
+    <h3>Recent On-Chain Feedback</h3>
+    ${recentFeedback(agents)}
+  </div>
+</div>
+</body>
+</html>`.__html;
+}
+
+// --- Agent Profile ---
+
+function payoutCell(h: AgentProfile["history"][number]): SafeHtml | string {
+  if (h.status !== "completed") return "--";
+  if (!h.verified) return html`<span class="muted">unverified</span>`;
+  const tx = h.payoutTx && /^0x[0-9a-fA-F]{64}$/.test(h.payoutTx) ? h.payoutTx : null;
+  return PAYOUT_EXPLORER && tx
+    ? html`<a href="${safeUrl(`${PAYOUT_EXPLORER}/tx/${tx}`)}" target="_blank" rel="noopener" class="verified">&#10003; verified</a>`
+    : html`<span class="verified">&#10003; verified</span>`;
+}
+
+const PROFILE_STYLE = raw(`<style>
+  :root { --bg: #0a0b10; --card: #12141f; --border: #1e2235; --text: #e0e0e0; --muted: #8890a4; --accent: #6366f1; --accent2: #8b5cf6; --green: #22c55e; }
+  * { margin: 0; padding: 0; box-sizing: border-box; }
+  body { font-family: 'Inter', -apple-system, sans-serif; background: var(--bg); color: var(--text); min-height: 100vh; }
+  .muted { color: var(--muted); }
+  .back { display: inline-block; padding: 12px 24px; color: var(--accent); text-decoration: none; font-size: 14px; }
+  .back:hover { text-decoration: underline; }
+  .profile-header { padding: 32px 24px; max-width: 1000px; margin: 0 auto; }
+  .profile-header h1 { font-size: 24px; font-weight: 700; font-family: monospace; word-break: break-all; }
+  .profile-header .sub { color: var(--muted); margin-top: 4px; }
+  .identity { display: flex; align-items: center; justify-content: center; gap: 16px; }
+  .identity img { width: 56px; height: 56px; border-radius: 50%; object-fit: cover; }
+  .identity-addr { font-family: monospace; font-size: 13px; color: var(--muted); margin-top: 4px; }
+  .identity-card { font-size: 13px; color: var(--muted); margin-top: 4px; }
+  .identity-desc { max-width: 720px; margin: 12px auto 0; color: var(--muted); font-size: 14px; }
+  .identity-links a, .identity-links span { color: var(--accent2); margin: 0 6px; font-size: 13px; }
+  .identity-links span { color: var(--muted); }
+  .container { max-width: 1000px; margin: 0 auto; padding: 0 24px 24px; }
+  .stats-row { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 16px; margin-bottom: 24px; }
+  .stat-card { background: var(--card); border: 1px solid var(--border); border-radius: 12px; padding: 20px; text-align: center; }
+  .stat-card .value { font-size: 32px; font-weight: 700; }
+  .stat-card .label { font-size: 12px; color: var(--muted); margin-top: 4px; text-transform: uppercase; }
+  .chart-card { background: var(--card); border: 1px solid var(--border); border-radius: 12px; padding: 24px; margin-bottom: 24px; }
+  .chart-card h3 { font-size: 15px; color: var(--muted); margin-bottom: 12px; }
+  .chart-row { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; margin-bottom: 24px; }
+  .section { background: var(--card); border: 1px solid var(--border); border-radius: 12px; overflow: hidden; margin-bottom: 24px; }
+  .section h3 { padding: 16px 20px; border-bottom: 1px solid var(--border); color: var(--muted); font-size: 15px; }
+  .exports { float: right; font-size: 13px; font-weight: 400; }
+  .exports a { color: var(--accent2); margin-left: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; padding: 10px 16px; color: var(--muted); font-size: 12px; text-transform: uppercase; border-bottom: 1px solid var(--border); }
+  td { padding: 10px 16px; border-bottom: 1px solid var(--border); font-size: 14px; }
+  .badge { display: inline-block; padding: 2px 8px; border-radius: 100px; font-size: 12px; }
+  .badge-completed { background: rgba(34,197,94,0.15); color: #22c55e; }
+  .badge-claimed { background: rgba(234,179,8,0.15); color: #eab308; }
+  .badge-submitted { background: rgba(59,130,246,0.15); color: #3b82f6; }
+  .verified { color: #22c55e; }
+  .tag { display: inline-block; background: rgba(99,102,241,0.15); color: var(--accent); padding: 2px 8px; border-radius: 100px; font-size: 11px; margin: 1px; }
+  .feedback-item { padding: 12px 16px; border-bottom: 1px solid var(--border); }
+  .feedback-item:last-child { border-bottom: none; }
+  .feedback-score { font-weight: 600; }
+  .feedback-score.positive { color: var(--green); }
+  .feedback-score.negative { color: #ef4444; }
+  .rater { font-family: monospace; color: var(--accent2); }
+  .feedback-date { float: right; color: var(--muted); font-size: 12px; }
+  .feedback-tools { display: flex; gap: 8px; flex-wrap: wrap; padding: 12px 16px; border-bottom: 1px solid var(--border); }
+  .feedback-tools input, .feedback-tools select, .feedback-tools button { background: var(--bg); color: var(--text); border: 1px solid var(--border); border-radius: 6px; padding: 6px 12px; font: inherit; font-size: 13px; }
+  .feedback-tools input { flex: 1; min-width: 160px; }
+  .badge-repeat { background: rgba(249,115,22,0.15); color: #f97316; margin-left: 6px; }
+  .pager { display: flex; justify-content: flex-end; align-items: center; gap: 12px; padding: 12px 16px; font-size: 13px; color: var(--muted); }
+  .pager a { color: var(--accent); text-decoration: none; }
+  .pager .disabled { opacity: 0.4; }
+  .themes { padding: 16px 20px; }
+  .themes p { color: var(--muted); font-size: 14px; margin-bottom: 12px; }
+  .themes h4 { font-size: 13px; color: var(--muted); text-transform: uppercase; margin: 16px 0 8px; }
+  .theme { display: inline-block; padding: 4px 10px; border-radius: 100px; font-size: 13px; margin: 2px; background: rgba(136,144,164,0.15); }
+  .theme small { color: var(--muted); margin-left: 4px; }
+  .theme-positive { background: rgba(34,197,94,0.15); color: var(--green); }
+  .theme-negative { background: rgba(239,68,68,0.15); color: #ef4444; }
+  .themes li { margin: 4px 0 0 18px; font-size: 14px; }
+  .risk-banner { border-radius: 12px; padding: 16px 20px; margin-bottom: 24px; border: 1px solid; }
+  .risk-banner h3 { font-size: 15px; margin-bottom: 8px; }
+  .risk-banner li { margin: 4px 0 0 18px; font-size: 14px; }
+  .risk-low { background: rgba(234,179,8,0.08); border-color: rgba(234,179,8,0.4); color: #eab308; }
+  .risk-medium { background: rgba(249,115,22,0.08); border-color: rgba(249,115,22,0.4); color: #f97316; }
+  .risk-high { background: rgba(239,68,68,0.1); border-color: rgba(239,68,68,0.5); color: #ef4444; }
+  .give-feedback { padding: 16px 20px; }
+  .give-feedback button, .give-feedback select, .give-feedback textarea { background: var(--bg); color: var(--text); border: 1px solid var(--border); border-radius: 6px; padding: 6px 12px; font: inherit; }
+  .give-feedback button { cursor: pointer; }
+  .give-feedback form { display: none; margin-top: 12px; }
+  .give-feedback textarea { width: 100%; margin: 8px 0; resize: vertical; }
+  .give-feedback .hint { color: var(--muted); font-size: 13px; margin-top: 8px; word-break: break-all; }
+  .badge-embed { padding: 16px 20px; }
+  .badge-embed pre { margin-top: 12px; white-space: pre-wrap; word-break: break-all; font-size: 12px; color: var(--muted); }
+</style>`);
+
+function profileHeader(address: string, agent: AgentProfile): SafeHtml {
+  const id = getIdentity(address) ?? agent.identity;
+  const names = [id?.ens, id?.basename].filter((n): n is string => !!n && n !== id?.name);
+  const cardName = cardNameOf(id);
+  return html`<div class="profile-header" id="profileHeader" data-live>
+  <div class="identity">
+    ${id?.avatar && html`<img src="${safeUrl(id.avatar)}" alt="">`}
+    <div><h1>${id?.name ?? agent.address}</h1>${id?.name && html`<div class="identity-addr">${agent.address}</div>`}${cardName && html`<div class="identity-card">Agent card name: ${cardName} (not verified)</div>`}</div>
+  </div>
+  ${id?.description && html`<div class="identity-desc">${id.description}</div>`}
+  <div class="identity-links">${names.map((n) => html`<span>${n}</span>`)}${(id?.links ?? []).map((l) => html`<a href="${safeUrl(l.url)}" target="_blank" rel="noopener noreferrer">${l.label}</a>`)}</div>
+  <div class="sub">On-chain reputation: ${agent.onChainReputation} | ${agent.bountiesCompleted} bounties completed</div>
+</div>`;
+}
+
+async function riskBanner(address: string): Promise<SafeHtml> {
+  const risk = await getRiskReport(address);
+  if (risk.level === "none") return html`<div id="riskBanner" data-live></div>`;
+  return html`<div class="risk-banner risk-${cssToken(risk.level)}" id="riskBanner" data-live>
+    <h3>⚠ Possible reputation gaming (${risk.level} risk)</h3>
+    <ul>${risk.flags.map((f) => html`<li><strong>${f.type}</strong>: ${f.detail}</li>`)}</ul>
+  </div>`;
+}
+
+const percentOf = (ratio: number) => `${Math.round(ratio * 100)}%`;
+const tone = (score: number) => (score > 0 ? "positive" : score < 0 ? "negative" : "neutral");
+
+function feedbackHref(address: string, filter: FeedbackFilter, page: number): string {
+  const params = new URLSearchParams();
+  if (filter.q) params.set("q", filter.q);
+  if (filter.minScore !== null) params.set("minScore", String(filter.minScore));
+  if (page > 1) params.set("page", String(page));
+  const qs = params.toString();
+  return `${profilePath(address)}${qs ? `?${qs}` : ""}#feedbackSection`;
+}
+
+// Why the agent is rated the way it is: the overall split, recurring themes and comments that were repeated
+function feedbackThemes(a: FeedbackAnalysis): SafeHtml {
+  const { summary } = a;
+  if (summary.count === 0) return html`<div class="section" id="feedbackThemes" data-live hidden></div>`;
+  return html`<div class="section" id="feedbackThemes" data-live>
+    <h3>What Raters Say</h3>
+    <div class="themes">
+      <p>${summary.count} entries: ${percentOf(summary.positiveRatio)} positive, ${percentOf(summary.negativeRatio)} negative, average ${summary.averageScore}</p>
+      ${a.themes.length > 0
+        ? a.themes.map(
+            (t) =>
+              html`<span class="theme theme-${tone(t.averageScore)}" title="${t.positive} positive, ${t.negative} negative, average ${t.averageScore}">${t.term}<small>${t.comments} comments · ${t.raters} ${t.raters === 1 ? "rater" : "raters"}</small></span>`
+          )
+        : html`<span class="muted">No recurring themes yet.</span>`}
+      ${a.duplicates.length > 0 && html`<h4>Repeated comments</h4><ul>${a.duplicates.map(
+        (d) => html`<li><em>${d.example}</em> — ${d.kind === "exact" ? "posted" : "filled in from a template"} ${d.count} times by ${d.raters} ${d.raters === 1 ? "rater" : "raters"}</li>`
+      )}</ul>`}
+    </div>
+  </div>`;
+}
+
+function feedbackList(address: string, a: FeedbackAnalysis): SafeHtml {
+  const { filter } = a;
+  const prev = filter.page > 1 ? feedbackHref(address, filter, Math.min(filter.page - 1, Math.max(a.pages, 1))) : null;
+  const next = filter.page < a.pages ? feedbackHref(address, filter, filter.page + 1) : null;
+  const first = (filter.page - 1) * FEEDBACK_PAGE_SIZE;
+  const repeat = (group: number | null) => {
+    const d = group === null ? null : a.duplicates[group];
+    return d && html`<span class="badge badge-repeat" title="${d.kind === "exact" ? "Same comment" : "Same template"} as ${d.count - 1} other ${d.count === 2 ? "entry" : "entries"}">${d.kind === "exact" ? "repeated" : "templated"} ×${d.count}</span>`;
+  };
+  return html`<div class="section" id="feedbackSection" data-live${a.summary.count === 0 && " hidden"}>
+    <h3>On-Chain Feedback (ERC-8004)</h3>
+    <form class="feedback-tools" method="get" action="${profilePath(address)}#feedbackSection" data-nav-form>
+      <input name="q" type="search" placeholder="Search comments or raters" value="${filter.q ?? ""}">
+      <select name="minScore"><option value="">Any score</option>${Array.from({ length: 21 }, (_, i) => 10 - i).map(
+        (n) => html`<option value="${n}"${n === filter.minScore && " selected"}>${n > 0 ? "+" : ""}${n} or higher</option>`
+      )}</select>
+      <noscript><button type="submit">Filter</button></noscript>
+    </form>
+    ${a.items.length === 0 && html`<div class="feedback-item muted">No feedback matches these filters.</div>`}
+    ${a.items.map(
+      (f) =>
+        html`<div class="feedback-item">${feedbackScore(f.score)} from <span class="rater">${f.fromName ?? (f.from ? `${f.from.slice(0, 8)}...` : "unknown")}</span>${f.comment && html` — <em>${f.comment}</em>`}${repeat(f.duplicateGroup)}<span class="feedback-date">${new Date(f.timestamp * 1000).toISOString().slice(0, 10)}</span></div>`
+    )}
+    <div class="pager"><span>${a.total > 0 && `${Math.min(first + 1, a.total)}-${Math.min(first + a.items.length, a.total)} of ${a.total}`}</span>${prev ? html`<a data-nav href="${prev}">Prev</a>` : html`<span class="disabled">Prev</span>`}${next ? html`<a data-nav href="${next}">Next</a>` : html`<span class="disabled">Next</span>`}</div>
+  </div>`;
+}
+
+function notFoundPage(address: string | null, meta: SafeHtml): string {
+  return html`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${meta}
+${PROFILE_STYLE}
+</head>
+<body>
+<a class="back" href="/">Back to Leaderboard</a>
+<div class="profile-header">
+  <h1>Agent not found</h1>
+  ${address && html`<div class="identity-addr">${address}</div>`}
+  <div class="sub">This address has no bounty history or on-chain reputation yet.</div>
+</div>
+</body>
+</html>`.__html;
+}
+
+/** A page for a name that doesn't resolve to any address. */
+export function renderUnknownName(): string {
+  return notFoundPage(null, html`<title>Agent not found</title>`);
+}
+
+/**
+ * An agent's profile. `origin` is the public base URL used for the badge
+ * snippet and the Open Graph tags; `feedback` picks the page and filters of
+ * the feedback list. Agents with no data get a not-found page.
+ */
+export async function renderProfile(
+  address: string,
+  agent: AgentProfile | null,
+  origin: string,
+  feedback: FeedbackFilter
+): Promise<string> {
+  const addr = checksummed(address);
+  const meta = raw(profileMeta(addr, agent, origin));
+  if (!agent) return notFoundPage(addr, meta);
+
+  const now = Date.now();
+  const stats = agentStats(addr);
+  const hasTrend = agentHistory(addr, now - 90 * 86_400_000, now, "day").length > 0;
+  const analysis = analyzeFeedback(addr, feedback);
+  const badge = `${origin}/badge/${addr}.svg`;
+  const exportHref = (file: string) => `/api/export/${file}?agent=${addr.toLowerCase()}`;
+
+  return html`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${meta}
+<script src="${CHART_JS}" integrity="${CHART_JS_INTEGRITY}" crossorigin="anonymous"></script>
+<script src="/assets/profile.js" defer></script>
+${PROFILE_STYLE}
+</head>
+<body data-address="${addr}" data-token="${tokenInfo().symbol}">
+<a class="back" href="/">Back to Leaderboard</a>
+${profileHeader(addr, agent)}
+<div class="container">
+  ${await riskBanner(addr)}
+  <div class="stats-row" id="stats" data-live>${statCards([
+    { value: agent.score.toFixed(1), label: `Composite Score (#${agent.rank})`, color: "#f472b6" },
+    { value: agent.onChainReputation, label: "On-Chain Reputation", color: "#8b5cf6" },
+    { value: amount(agent.totalEarnings), label: "Total Earnings", color: "#22c55e" },
+    { value: `${agent.verifiedEarnings.toFixed(2)} / ${agent.netEarnings.toFixed(2)}`, label: "Verified / Net Paid", color: "#14b8a6" },
+    { value: agent.bountiesCompleted, label: "Completed", color: "#6366f1" },
+    { value: `${agent.successRate}%`, label: "Success Rate", color: "#eab308" },
+  ])}</div>
+  <div class="chart-row">
+    <div class="chart-card"><h3>Bounty Outcomes</h3><canvas id="outcomeChart"></canvas></div>
+    <div class="chart-card"><h3>Tags Worked On</h3><canvas id="tagChart"></canvas></div>
+  </div>
+  ${hasTrend && html`<div class="chart-row">
+    <div class="chart-card"><h3>Leaderboard Rank (90 days)</h3><canvas id="rankChart"></canvas></div>
+    <div class="chart-card"><h3>Reputation, Earnings &amp; Success Rate</h3><canvas id="trendChart"></canvas></div>
+  </div>`}
+  ${stats && html`<div class="stats-row" id="perfStats" data-live>${statCards([
+    { value: hours(stats.turnaround.medianHours), label: "Median Time to Complete", color: "#6366f1" },
+    { value: hours(stats.turnaround.p90Hours), label: "P90 Time to Complete", color: "#8b5cf6" },
+    { value: `${stats.abandonmentRate}%`, label: `Abandoned (${stats.abandoned} of ${stats.claims})`, color: "#ef4444" },
+    { value: `${stats.streaks.current} wk`, label: `Active Streak (best ${stats.streaks.longest})`, color: "#eab308" },
+  ])}</div>
+  <div class="chart-card"><h3>Monthly Earnings &amp; Completions</h3><canvas id="monthlyChart"></canvas></div>`}
+  <div class="section">
+    <h3>Score Breakdown</h3>
+    <table><thead><tr><th>Component</th><th>Normalised</th><th>Weight</th><th>Points</th></tr></thead><tbody id="scoreBreakdown" data-live>${Object.entries(
+      agent.scoreBreakdown
+    ).map(([k, c]) => html`<tr><td>${k}</td><td>${Math.round(c.value * 100)}%</td><td>${c.weight}</td><td>${c.points}</td></tr>`)}</tbody></table>
+  </div>
+  <div class="section" id="chainSection" data-live${agent.chains.length === 0 && " hidden"}>
+    <h3>Reputation by Chain</h3>
+    <table><thead><tr><th>Chain</th><th>Chain ID</th><th>Reputation</th><th>Feedback</th></tr></thead><tbody>${agent.chains.map(
+      (c) => html`<tr><td>${c.chain}${c.testnet && html` <span class="muted">(testnet${SCORED_TESTNETS ? "" : ", not scored"})</span>`}</td><td>${c.chainId}</td><td>${c.reputationScore}</td><td>${c.feedbackCount}</td></tr>`
+    )}</tbody></table>
+  </div>
+  ${analysis.summary.count > 0 && html`<div class="chart-card"><h3>Feedback Sentiment by Month</h3><canvas id="sentimentChart"></canvas></div>`}
+  ${feedbackThemes(analysis)}
+  ${feedbackList(addr, analysis)}
+  <div class="section">
+    <h3>Leave Feedback</h3>
+    <div class="give-feedback">
+      <button id="connectBtn" type="button">Connect wallet</button>
+      <form id="feedbackForm">
+        <label>Score <select id="fbScore">${Array.from({ length: 21 }, (_, i) => 10 - i).map(
+          (n) => html`<option value="${n}"${n === 5 && " selected"}>${n > 0 ? "+" : ""}${n}</option>`
+        )}</select></label>
+        <label>Chain <select id="fbChain">${CHAINS.map((c) => html`<option value="${c.chainId}">${c.name}</option>`)}</select></label>
+        <textarea id="fbComment" rows="3" maxlength="280" placeholder="What was it like working with this agent?"></textarea>
+        <button type="submit">Submit on-chain</button>
+      </form>
+      <div class="hint" id="fbStatus">Only the poster of a completed bounty claimed by this agent can leave feedback.</div>
+      <noscript><div class="hint">Leaving feedback needs JavaScript and a browser wallet.</div></noscript>
+    </div>
+  </div>
+  <div class="section">
+    <h3>Reputation Badge</h3>
+    <div class="badge-embed">
+      <img src="${safeUrl(badge)}" alt="Reputation badge">
+      <pre>${`[![Agent reputation](${badge})](${origin}/agent/${addr})`}</pre>
+    </div>
+  </div>
+  <div class="section">
+    <h3>Bounty History <span class="exports">Export bounties <a href="${exportHref("bounties.csv")}" download>CSV</a> <a href="${exportHref("bounties.jsonl")}" download>JSONL</a> · feedback <a href="${exportHref("feedback.csv")}" download>CSV</a> <a href="${exportHref("feedback.jsonl")}" download>JSONL</a></span></h3>
+    <table><thead><tr><th>Bounty</th><th>Title</th><th>Gross</th><th>Net</th><th>Status</th><th>Completed</th><th>Turnaround</th><th>Payout</th></tr></thead><tbody id="history" data-live>${agent.history.map(
+      (h) =>
+        html`<tr><td>#${h.bountyId}</td><td>${h.title}</td><td>${h.reward > 0 ? `${h.reward.toFixed(2)} ${h.token}` : "--"}</td><td>${h.netReward > 0 ? `${h.netReward.toFixed(2)} ${h.token}` : "--"}</td><td><span class="badge badge-${cssToken(h.status)}">${h.status}</span></td><td>${h.completedAt ? h.completedAt.slice(0, 10) : "--"}</td><td>${hours(h.turnaroundHours)}</td><td>${payoutCell(h)}</td></tr>`
+    )}</tbody></table>
+  </div>
+</div>
+</body>
+</html>`.__html;
+}
+
+// --- Compare ---
+
+const percent = (v: number) => `${v}%`;
+
+const METRIC_FORMAT: Record<CompareMetricKey, (v: number) => string> = {
+  rank: (v) => `#${v}`,
+  score: (v) => v.toFixed(1),
+  onChainReputation: String,
+  totalEarnings: amount,
+  netEarnings: amount,
+  verifiedEarnings: amount,
+  bountiesCompleted: String,
+  successRate: percent,
+  medianTurnaroundHours: hours,
+  abandonmentRate: percent,
+  currentStreak: (v) => `${v} wk`,
+  averageScore: (v) => v.toFixed(2),
+};
+
+const COMPARE_STYLE = raw(`<style>
+  .compare-form { display: flex; gap: 8px; justify-content: center; margin-top: 16px; }
+  .compare-form input { flex: 1; max-width: 640px; background: var(--card); color: var(--text); border: 1px solid var(--border); border-radius: 6px; padding: 6px 12px; font-family: monospace; }
+  .compare-form button { background: var(--accent); color: white; border: none; border-radius: 6px; padding: 6px 16px; cursor: pointer; }
+  .compare-error { color: #ef4444; margin-top: 12px; }
+  .section { overflow-x: auto; }
+  th.agent-col { text-transform: none; font-size: 13px; color: var(--text); white-space: nowrap; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; vertical-align: middle; }
+  .addr-link { color: var(--accent2); text-decoration: none; font-family: monospace; font-size: 13px; }
+  .avatar { width: 20px; height: 20px; border-radius: 50%; object-fit: cover; vertical-align: middle; margin-right: 6px; }
+  .agent-name { font-family: inherit; font-weight: 600; }
+  .addr-sub { color: var(--muted); font-size: 11px; margin-left: 6px; }
+  .risk-tag { display: inline-block; margin-left: 6px; padding: 0 6px; border-radius: 100px; font-size: 11px; border: 1px solid; }
+  td.lead { color: var(--green); font-weight: 700; }
+  .delta { font-size: 12px; font-weight: 400; }
+  .delta.up { color: var(--green); }
+  .delta.down { color: #ef4444; }
+</style>`);
+
+// One column per agent; the swatch matches the agent's colour in the charts
+const agentHeads = (c: Comparison, first = "") =>
+  html`<thead><tr><th>${first}</th>${c.agents.map(
+    (a, i) =>
+      html`<th class="agent-col"><span class="swatch" style="background:${COMPARE_COLORS[i]}"></span><a class="addr-link" href="${profilePath(a.address)}">${agentLabel(a.address)}</a>${a.risk !== "none" && html`<span class="risk-tag risk-${cssToken(a.risk)}">⚠ ${a.risk}</span>`}</th>`
+  )}</tr></thead>`;
+
+// The value, plus its difference from the first agent, coloured by whether it's better
+function metricCell(a: ComparedAgent, base: ComparedAgent, metric: (typeof COMPARE_METRICS)[number], leader: string | null): SafeHtml {
+  const value = metricValue(a, metric.key);
+  if (value === null) return html`<td class="muted">--</td>`;
+  const format = METRIC_FORMAT[metric.key];
+  const baseValue = metricValue(base, metric.key);
+  const delta = a === base || baseValue === null ? 0 : Math.round((value - baseValue) * 100) / 100;
+  const better = metric.better === "higher" ? delta > 0 : delta < 0;
+  const deltaText = metric.key === "rank" ? String(Math.abs(delta)) : format(Math.abs(delta));
+  return html`<td${a.address === leader && html` class="lead"`}>${format(value)}${delta !== 0 && html` <span class="delta ${better ? "up" : "down"}">${delta > 0 ? "+" : "−"}${deltaText}</span>`}</td>`;
+}
+
+// A row of counts with the largest one highlighted
+function countRow(label: string, counts: number[]): SafeHtml {
+  const max = Math.max(...counts);
+  const leads = counts.filter((n) => n === max).length === 1 && max > 0;
+  return html`<tr><td>${label}</td>${counts.map((n) => html`<td${leads && n === max && html` class="lead"`}>${n}</td>`)}</tr>`;
+}
+
+function sentimentRows(c: Comparison): SafeHtml[] {
+  const share = (a: ComparedAgent) =>
+    a.sentiment.feedbackCount > 0 ? `${Math.round((a.sentiment.positive / a.sentiment.feedbackCount) * 100)}%` : "--";
+  return [
+    countRow("Feedback entries", c.agents.map((a) => a.sentiment.feedbackCount)),
+    countRow("Positive", c.agents.map((a) => a.sentiment.positive)),
+    html`<tr><td>Neutral</td>${c.agents.map((a) => html`<td>${a.sentiment.neutral}</td>`)}</tr>`,
+    html`<tr><td>Negative</td>${c.agents.map((a) => html`<td>${a.sentiment.negative}</td>`)}</tr>`,
+    html`<tr><td>Share positive</td>${c.agents.map((a) => html`<td>${share(a)}</td>`)}</tr>`,
+    html`<tr><td>Last feedback</td>${c.agents.map((a) => html`<td>${a.sentiment.lastFeedbackAt?.slice(0, 10) ?? "--"}</td>`)}</tr>`,
+  ];
+}
+
+function compareSections(c: Comparison): SafeHtml {
+  const [base] = c.agents;
+  const statuses = [...new Set(c.agents.flatMap((a) => Object.keys(a.outcomes)))].sort(
+    (x, y) => c.agents.reduce((s, a) => s + (a.outcomes[y] ?? 0) - (a.outcomes[x] ?? 0), 0)
+  );
+  const months = c.months.slice(-12).reverse();
+  return html`<div class="section">
+    <h3>Metrics <span class="exports">differences are against ${displayName(base.address)}</span></h3>
+    <table>${agentHeads(c, "Metric")}<tbody id="compareMetrics" data-live>${COMPARE_METRICS.map(
+      (m) => html`<tr><td>${m.label}</td>${c.agents.map((a) => metricCell(a, base, m, c.leaders[m.key]))}</tr>`
+    )}</tbody></table>
+  </div>
+  <div class="chart-row">
+    <div class="chart-card"><h3>Reputation (90 days)</h3><canvas id="reputationChart"></canvas></div>
+    <div class="chart-card"><h3>Leaderboard Rank (90 days)</h3><canvas id="rankChart"></canvas></div>
+  </div>
+  <div class="chart-row">
+    <div class="chart-card"><h3>Monthly Earnings</h3><canvas id="monthlyChart"></canvas></div>
+    <div class="chart-card"><h3>Feedback Sentiment</h3><canvas id="sentimentChart"></canvas></div>
+  </div>
+  <div class="section">
+    <h3>Feedback Sentiment</h3>
+    <table>${agentHeads(c)}<tbody id="compareSentiment" data-live>${sentimentRows(c)}</tbody></table>
+  </div>
+  <div class="chart-row">
+    <div class="chart-card"><h3>Tags Worked On</h3><canvas id="tagChart"></canvas></div>
+    <div class="chart-card"><h3>Bounty Outcomes</h3><canvas id="outcomeChart"></canvas></div>
+  </div>
+  <div class="section">
+    <h3>Tags</h3>
+    <table>${agentHeads(c, "Tag")}<tbody id="compareTags" data-live>${
+      c.tags.length > 0
+        ? c.tags.slice(0, 15).map((t) => countRow(t, c.agents.map((a) => a.tags[t] ?? 0)))
+        : html`<tr><td class="muted" colspan="${c.agents.length + 1}">No tagged bounties</td></tr>`
+    }</tbody></table>
+  </div>
+  <div class="section">
+    <h3>Outcomes</h3>
+    <table>${agentHeads(c, "Status")}<tbody id="compareOutcomes" data-live>${statuses.map(
+      (status) => html`<tr><td><span class="badge badge-${cssToken(status)}">${status}</span></td>${c.agents.map((a) => html`<td>${a.outcomes[status] ?? 0}</td>`)}</tr>`
+    )}</tbody></table>
+  </div>
+  <div class="section">
+    <h3>Monthly Completions &amp; Earnings</h3>
+    <table>${agentHeads(c, "Month")}<tbody id="compareMonthly" data-live>${
+      months.length > 0
+        ? months.map(
+            (month) =>
+              html`<tr><td>${month}</td>${c.agents.map((a) => {
+                const point = a.monthly.find((p) => p.month === month);
+                return html`<td>${point?.completions ?? 0} · ${amount(point?.earnings ?? 0)}</td>`;
+              })}</tr>`
+          )
+        : html`<tr><td class="muted" colspan="${c.agents.length + 1}">No completed bounties yet</td></tr>`
+    }</tbody></table>
+  </div>`;
+}
+
+/**
+ * The comparison page. `input` is echoed back into the address field;
+ * without a comparison only the picker (and `error`, if any) is shown.
+ */
+export function renderCompare(input: string, comparison: Comparison | null, error: string | null): string {
+  const names = comparison?.agents.map((a) => displayName(a.address)).join(" vs ");
+  return html`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${names ? `${names} — Agent Comparison` : "Compare Agents"}</title>
+${comparison && html`<script src="${CHART_JS}" integrity="${CHART_JS_INTEGRITY}" crossorigin="anonymous"></script>
+<script src="/assets/compare.js" defer></script>`}
+${PROFILE_STYLE}
+${COMPARE_STYLE}
+</head>
+<body${comparison && html` data-addresses="${comparison.agents.map((a) => a.address.toLowerCase()).join(",")}"`}>
+<a class="back" href="/">Back to Leaderboard</a>
+<div class="profile-header">
+  <h1>Compare Agents</h1>
+  <form class="compare-form" method="get" action="/compare">
+    <input name="addresses" value="${input}" placeholder="0x…, name.eth" aria-label="Addresses or names, comma-separated">
+    <button type="submit">Compare</button>
+  </form>
+  ${error ? html`<div class="compare-error">${error}</div>` : !comparison && html`<div class="sub">Enter 2-${MAX_COMPARE} addresses, ENS names or Basenames, or tick agents on the leaderboard.</div>`}
+</div>
+${comparison && html`<div class="container">${compareSections(comparison)}</div>`}
+</body>
+</html>`.__html;
+}
@@ -0,0 +1,398 @@
+import { formatUnits, parseAbi, parseAbiItem, parseEventLogs, parseUnits } from "viem";
+import { CHAINS } from "./chain";
+import { loadBounties, loadTransfers, saveTransfers, setTransferScanBlock, transferScanBlock } from "./db";
+import type { Bounty, TokenTransfer } from "./types";
+
+// --- Payments & Payout Verification ---
+//
+// Bounty amounts are normalised with each payout token's decimals. Completed
+// bounties are then matched against ERC-20 Transfer logs into the claimer's
+// wallet on the payout chain, sent by the board's payout wallet or the bounty's
+// creator; a match marks the payout as verified on-chain.
+
+const ERC20_ABI = parseAbi([
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+]);
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+
+// Circle's native USDC deployments
+const USDC: Record<number, string> = {
+  8453: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+  84532: "0x036cbd53842c5426634e7929541ec2318f3dcf7e",
+};
+
+const PAYOUT_CHAIN = CHAINS.find((c) => c.key === (process.env.PAYOUT_CHAIN || "base")) ?? CHAINS[0];
+const DEFAULT_TOKEN = (process.env.PAYOUT_TOKEN || USDC[PAYOUT_CHAIN.chainId] || USDC[8453]).toLowerCase();
+export const PAYOUT_EXPLORER = PAYOUT_CHAIN.client.chain.blockExplorers?.default.url ?? null;
+const VERIFY_INTERVAL = parseInt(process.env.PAYOUT_VERIFY_INTERVAL_MS || "300000", 10);
+const LOG_CHUNK = BigInt(process.env.PAYOUT_LOG_CHUNK || "10000");
+// Wallets the board pays bounties from; a transfer from anyone else (the agent included) isn't a payout
+const PAYOUT_WALLETS = new Set(
+  (process.env.PAYOUT_WALLETS || "")
+    .split(",")
+    .map((a) => a.trim().toLowerCase())
+    .filter(Boolean)
+);
+const BLOCK_TIME_CACHE_SIZE = 10_000;
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface BountyPayment {
+  token: TokenInfo;
+  /** False when the token's decimals couldn't be read and the bounty doesn't state them; amounts are then a guess */
+  decimalsKnown: boolean;
+  /** Base units */
+  grossUnits: bigint;
+  netUnits: bigint;
+  /** Token units */
+  gross: number;
+  net: number;
+  fee: number;
+}
+
+export interface Payout {
+  chainId: number;
+  txHash: string;
+  /** Token units actually transferred */
+  amount: number;
+  url: string | null;
+}
+
+const tokens = new Map<string, TokenInfo>(
+  Object.values(USDC).map((address) => [address, { address, symbol: "USDC", decimals: 6 }])
+);
+
+const verifier = {
+  lastRunAt: null as string | null,
+  lastError: null as string | null,
+  lastBlock: null as string | null,
+  pending: 0,
+};
+let running = false;
+
+export function payoutVerifierStatus() {
+  return { chain: PAYOUT_CHAIN.key, token: DEFAULT_TOKEN, ...verifier };
+}
+
+/** Metadata for a payout token. Tokens not read yet are assumed to have 6 decimals, like USDC. */
+export function tokenInfo(address = DEFAULT_TOKEN): TokenInfo {
+  const addr = address.toLowerCase();
+  return tokens.get(addr) ?? { address: addr, symbol: `${addr.slice(0, 6)}...`, decimals: 6 };
+}
+
+const knownDecimals = (address: string) => tokens.has(address.toLowerCase());
+
+/** Reads symbol and decimals for payout tokens not seen before. */
+export async function loadTokenMetadata(bounties: Bounty[]): Promise<void> {
+  const unknown = new Set(
+    bounties.map((b) => b.payment?.token?.toLowerCase()).filter((t): t is string => !!t && !tokens.has(t))
+  );
+  for (const address of unknown) {
+    const contract = { address: address as `0x${string}`, abi: ERC20_ABI } as const;
+    try {
+      const [decimals, symbol] = await Promise.all([
+        PAYOUT_CHAIN.client.readContract({ ...contract, functionName: "decimals" }),
+        PAYOUT_CHAIN.client.readContract({ ...contract, functionName: "symbol" }),
+      ]);
+      tokens.set(address, { address, symbol, decimals: Number(decimals) });
+    } catch {
+      // Not an ERC-20 on the payout chain (or RPC down); keep the default and retry next sync
+    }
+  }
+}
+
+const units = (v?: string) => (v && /^\d+$/.test(v) ? BigInt(v) : null);
+
+/**
+ * Gross, fee and net amounts for a bounty. Amounts come from `payment` when
+ * present, then `reward` (base units), then `rewardFormatted` (token units).
+ */
+export function bountyPayment(b: Bounty): BountyPayment {
+  const base = tokenInfo(b.payment?.token);
+  const token = { ...base, decimals: b.payment?.decimals ?? base.decimals };
+  const decimalsKnown = b.payment?.decimals !== undefined || knownDecimals(base.address);
+
+  let grossUnits = units(b.payment?.grossAmount) ?? units(b.payment?.grossReward) ?? units(b.reward);
+  if (grossUnits === null) {
+    const formatted = b.rewardFormatted?.match(/\d+(\.\d+)?/)?.[0];
+    grossUnits = formatted ? parseUnits(formatted, token.decimals) : 0n;
+  }
+  const feeUnits = units(b.payment?.fee) ?? 0n;
+  const netUnits = units(b.payment?.netAmount) ?? (grossUnits > feeUnits ? grossUnits - feeUnits : 0n);
+
+  const toNumber = (v: bigint) => Number(formatUnits(v, token.decimals));
+  return {
+    token,
+    decimalsKnown,
+    grossUnits,
+    netUnits,
+    gross: toNumber(grossUnits),
+    net: toNumber(netUnits),
+    fee: toNumber(feeUnits),
+  };
+}
+
+const toSeconds = (iso?: string) => (iso ? Math.floor(Date.parse(iso) / 1000) || 0 : 0);
+
+const explorerTx = (txHash: string) => (PAYOUT_EXPLORER ? `${PAYOUT_EXPLORER}/tx/${txHash}` : null);
+
+/**
+ * Pairs completed bounties with transfers into the claimer's wallet from a
+ * payout wallet or the bounty's creator. A bounty's own `txHash` is honoured
+ * first; otherwise the earliest unused transfer of exactly the net (or gross)
+ * amount after the bounty was created is taken. Bounties without a creation
+ * time have no window to match in, and amounts in a token whose decimals are
+ * unknown can't be compared, so both stay unverified. Each transfer pays for
+ * at most one bounty.
+ */
+export function matchPayouts(bounties: Bounty[], transfers: TokenTransfer[]): Map<string, Payout> {
+  const byRecipient = new Map<string, TokenTransfer[]>();
+  for (const t of transfers) {
+    const key = `${t.token.toLowerCase()}:${t.to.toLowerCase()}`;
+    if (!byRecipient.has(key)) byRecipient.set(key, []);
+    byRecipient.get(key)!.push(t);
+  }
+
+  const completed = bounties
+    .filter((b) => b.status === "completed" && b.claimedBy)
+    .sort((a, b) => toSeconds(a.completedAt || a.createdAt) - toSeconds(b.completedAt || b.createdAt));
+  const used = new Set<string>();
+  const payouts = new Map<string, Payout>();
+
+  const take = (b: Bounty, accept: (t: TokenTransfer) => boolean) => {
+    const payment = bountyPayment(b);
+    if (!payment.decimalsKnown) return;
+    const candidates = byRecipient.get(`${payment.token.address}:${b.claimedBy!.toLowerCase()}`) || [];
+    const amounts = new Set([payment.netUnits, payment.grossUnits].filter((v) => v > 0n));
+    const creator = b.creator?.toLowerCase();
+    const fromPayer = (t: TokenTransfer) => PAYOUT_WALLETS.has(t.from.toLowerCase()) || t.from.toLowerCase() === creator;
+    const match = candidates.find(
+      (t) => !used.has(`${t.txHash}:${t.logIndex}`) && amounts.has(BigInt(t.value)) && fromPayer(t) && accept(t)
+    );
+    if (!match) return;
+    used.add(`${match.txHash}:${match.logIndex}`);
+    payouts.set(b.id, {
+      chainId: match.chainId,
+      txHash: match.txHash,
+      amount: Number(formatUnits(BigInt(match.value), payment.token.decimals)),
+      url: explorerTx(match.txHash),
+    });
+  };
+
+  for (const b of completed) {
+    const txHash = b.payment?.txHash?.toLowerCase();
+    if (txHash) take(b, (t) => t.txHash.toLowerCase() === txHash);
+  }
+  for (const b of completed) {
+    const since = toSeconds(b.createdAt);
+    if (!payouts.has(b.id) && !b.payment?.txHash && since > 0) take(b, (t) => t.blockTime >= since);
+  }
+  return payouts;
+}
+
+// --- Monthly Reconciliation ---
+
+/** Completed bounties for one calendar month (UTC), with gross/net/fees and what is verified on-chain. */
+export function monthlyReconciliation(month: string) {
+  const [year, m] = month.split("-").map(Number);
+  const from = Date.UTC(year, m - 1, 1);
+  const to = Date.UTC(year, m, 1);
+
+  const all = loadBounties();
+  const bounties = all.filter((b) => {
+    if (b.status !== "completed" || !b.claimedBy) return false;
+    const t = Date.parse(b.completedAt || b.createdAt || "");
+    return t >= from && t < to;
+  });
+  const payouts = matchPayouts(all, loadTransfers());
+
+  type Totals = { gross: number; net: number; fees: number; verified: number; unverifiedCount: number };
+  const empty = (): Totals => ({ gross: 0, net: 0, fees: 0, verified: 0, unverifiedCount: 0 });
+  const totals = new Map<string, Totals>();
+  const agents = new Map<
+    string,
+    { address: string; completed: number; byToken: Record<string, Totals>; unverified: Array<{ bountyId: string; title: string; net: number; token: string }> }
+  >();
+
+  for (const b of bounties) {
+    const payment = bountyPayment(b);
+    const payout = payouts.get(b.id);
+    const symbol = payment.token.symbol;
+    const agent = agents.get(b.claimedBy!.toLowerCase()) ?? {
+      address: b.claimedBy!,
+      completed: 0,
+      byToken: {},
+      unverified: [],
+    };
+    agent.completed++;
+
+    if (!totals.has(symbol)) totals.set(symbol, empty());
+    for (const sums of [totals.get(symbol)!, (agent.byToken[symbol] ??= empty())]) {
+      sums.gross += payment.gross;
+      sums.net += payment.net;
+      sums.fees += payment.fee;
+      if (payout) sums.verified += payout.amount;
+      else sums.unverifiedCount++;
+    }
+    if (!payout) agent.unverified.push({ bountyId: b.id, title: b.title, net: payment.net, token: symbol });
+    agents.set(b.claimedBy!.toLowerCase(), agent);
+  }
+
+  return {
+    month,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    totals: Object.fromEntries(totals),
+    agents: [...agents.values()].sort((a, b) => b.completed - a.completed),
+  };
+}
+
+// --- Transfer Scanning ---
+
+const blockTimes = new Map<bigint, number>();
+
+async function blockTime(blockNumber: bigint): Promise<number> {
+  const cached = blockTimes.get(blockNumber);
+  if (cached !== undefined) return cached;
+  const block = await PAYOUT_CHAIN.client.getBlock({ blockNumber });
+  if (blockTimes.size >= BLOCK_TIME_CACHE_SIZE) blockTimes.delete(blockTimes.keys().next().value!);
+  blockTimes.set(blockNumber, Number(block.timestamp));
+  return Number(block.timestamp);
+}
+
+// First block at or after a unix timestamp, by binary search over block headers
+async function blockAt(timestamp: number, head: bigint): Promise<bigint> {
+  let lo = 0n;
+  let hi = head;
+  while (lo < hi) {
+    const mid = (lo + hi) / 2n;
+    if ((await blockTime(mid)) < timestamp) lo = mid + 1n;
+    else hi = mid;
+  }
+  return lo;
+}
+
+type TransferLog = {
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  address: string;
+  args: { from?: string; to?: string; value?: bigint };
+};
+
+async function toTransfers(logs: TransferLog[]): Promise<TokenTransfer[]> {
+  const out: TokenTransfer[] = [];
+  for (const log of logs) {
+    const { from, to, value } = log.args;
+    if (!from || !to || value === undefined) continue;
+    out.push({
+      chainId: PAYOUT_CHAIN.chainId,
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      token: log.address,
+      from,
+      to,
+      value: value.toString(),
+      blockNumber: Number(log.blockNumber),
+      blockTime: await blockTime(log.blockNumber),
+    });
+  }
+  return out;
+}
+
+// Walk [from, head] for transfers of `token` into `recipient`, halving the span when the RPC rejects a range
+async function scanRecipient(token: string, recipient: string, from: bigint, head: bigint): Promise<void> {
+  let start = from;
+  let span = LOG_CHUNK;
+  while (start <= head) {
+    const end = start + span - 1n < head ? start + span - 1n : head;
+    let logs;
+    try {
+      logs = await PAYOUT_CHAIN.client.getLogs({
+        address: token as `0x${string}`,
+        event: TRANSFER_EVENT,
+        args: { to: recipient as `0x${string}` },
+        fromBlock: start,
+        toBlock: end,
+      });
+    } catch (err) {
+      if (span > 1n) {
+        span = span / 2n;
+        continue;
+      }
+      throw err;
+    }
+    saveTransfers(await toTransfers(logs));
+    setTransferScanBlock(PAYOUT_CHAIN.chainId, token, recipient, Number(end));
+    start = end + 1n;
+    if (span < LOG_CHUNK) span = span * 2n;
+  }
+}
+
+/** Fetches transfers for completed bounties that don't have a matching payout yet. */
+export async function verifyPayouts(bounties: Bounty[]): Promise<void> {
+  await loadTokenMetadata(bounties);
+  const head = await PAYOUT_CHAIN.client.getBlockNumber();
+  const transfers = loadTransfers();
+  const matched = matchPayouts(bounties, transfers);
+  const pending = bounties.filter((b) => b.status === "completed" && b.claimedBy && !matched.has(b.id));
+  verifier.pending = pending.length;
+
+  // Bounties that name their payout transaction only need its receipt
+  const known = new Set(transfers.map((t) => t.txHash.toLowerCase()));
+  for (const b of pending) {
+    const txHash = b.payment?.txHash;
+    if (!txHash || known.has(txHash.toLowerCase())) continue;
+    try {
+      const receipt = await PAYOUT_CHAIN.client.getTransactionReceipt({ hash: txHash as `0x${string}` });
+      const logs = parseEventLogs({ abi: [TRANSFER_EVENT], logs: receipt.logs });
+      saveTransfers(await toTransfers(logs));
+      known.add(txHash.toLowerCase());
+    } catch {
+      // Unknown on this chain (or not mined); it stays unverified
+    }
+  }
+
+  // The rest need a scan of transfers into the claimer's wallet since their earliest bounty.
+  // Without a creation time there is nowhere to start but genesis, so those are left out.
+  const recipients = new Map<string, { token: string; address: string; since: number }>();
+  for (const b of pending) {
+    const since = toSeconds(b.createdAt);
+    if (b.payment?.txHash || since === 0) continue;
+    const token = bountyPayment(b).token.address;
+    const address = b.claimedBy!.toLowerCase();
+    const key = `${token}:${address}`;
+    const entry = recipients.get(key);
+    if (!entry || since < entry.since) recipients.set(key, { token, address, since });
+  }
+  for (const { token, address, since } of recipients.values()) {
+    const scanned = transferScanBlock(PAYOUT_CHAIN.chainId, token, address);
+    const from = scanned !== null ? BigInt(scanned) + 1n : await blockAt(since, head);
+    if (from <= head) await scanRecipient(token, address, from, head);
+  }
+  verifier.lastBlock = head.toString();
+}
+
+/** Re-checks unverified payouts on an interval. Safe to call once at boot. */
+export function startPayoutVerifier(): void {
+  if (running) return;
+  running = true;
+
+  const tick = async () => {
+    try {
+      await verifyPayouts(loadBounties());
+      verifier.lastError = null;
+    } catch (err) {
+      verifier.lastError = err instanceof Error ? err.message : String(err);
+      console.error(`Payout verifier error: ${verifier.lastError}`);
+    }
+    verifier.lastRunAt = new Date().toISOString();
+    setTimeout(tick, VERIFY_INTERVAL);
+  };
+  tick();
+}
@@ -0,0 +1,149 @@
+import type { AgentProfile } from "./types";
+
+// --- Leaderboard Queries ---
+//
+// Parses /api/agents query parameters and applies them to the ranked
+// leaderboard. Pagination metadata travels in response headers so the body
+// stays a plain AgentProfile[] for existing clients.
+
+const MAX_LIMIT = 500;
+
+export const SORT_KEYS = {
+  score: (a: AgentProfile) => a.score,
+  reputation: (a: AgentProfile) => a.onChainReputation,
+  earnings: (a: AgentProfile) => a.totalEarnings,
+  completed: (a: AgentProfile) => a.bountiesCompleted,
+  successRate: (a: AgentProfile) => a.successRate,
+} as const;
+
+export type SortKey = keyof typeof SORT_KEYS;
+
+export interface AgentQuery {
+  sort: SortKey;
+  order: "asc" | "desc";
+  limit: number | null;
+  offset: number;
+  tag: string | null;
+  minCompleted: number;
+  search: string | null;
+  fields: Array<keyof AgentProfile> | null;
+}
+
+const PROFILE_FIELDS: Array<keyof AgentProfile> = [
+  "address",
+  "identity",
+  "rank",
+  "rankChange",
+  "score",
+  "scoreBreakdown",
+  "risk",
+  "onChainReputation",
+  "chains",
+  "totalEarnings",
+  "bountiesCompleted",
+  "bountiesClaimed",
+  "successRate",
+  "tags",
+  "tagStats",
+  "outcomes",
+  "recentFeedback",
+  "history",
+];
+
+// Cursors are opaque to clients but simply encode the next offset
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`o:${offset}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): number | null {
+  const match = Buffer.from(cursor, "base64url").toString().match(/^o:(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+function parseCount(value: string | null): number | null | undefined {
+  if (value === null) return undefined;
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/** Validates query parameters; returns an error message for the 400 response instead of throwing. */
+export function parseAgentQuery(params: URLSearchParams): AgentQuery | { error: string } {
+  const sort = (params.get("sort") || "score") as SortKey;
+  if (!(sort in SORT_KEYS)) {
+    return { error: `Invalid sort (expected one of: ${Object.keys(SORT_KEYS).join(", ")})` };
+  }
+
+  const order = params.get("order") || "desc";
+  if (order !== "asc" && order !== "desc") return { error: "Invalid order (expected asc or desc)" };
+
+  const limit = parseCount(params.get("limit"));
+  const offsetParam = parseCount(params.get("offset"));
+  const minCompleted = parseCount(params.get("minCompleted"));
+  if (limit === null || offsetParam === null || minCompleted === null) {
+    return { error: "limit, offset and minCompleted must be non-negative integers" };
+  }
+
+  let offset = offsetParam ?? 0;
+  const cursor = params.get("cursor");
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (decoded === null) return { error: "Invalid cursor" };
+    offset = decoded;
+  }
+
+  let fields: AgentQuery["fields"] = null;
+  const fieldsParam = params.get("fields");
+  if (fieldsParam) {
+    const requested = fieldsParam.split(",").map((f) => f.trim()).filter(Boolean);
+    const unknown = requested.filter((f) => !PROFILE_FIELDS.includes(f as keyof AgentProfile));
+    if (unknown.length > 0) return { error: `Unknown fields: ${unknown.join(", ")}` };
+    fields = requested as Array<keyof AgentProfile>;
+  }
+
+  return {
+    sort,
+    order,
+    limit: limit === undefined ? null : Math.min(limit, MAX_LIMIT),
+    offset,
+    tag: params.get("tag")?.trim().toLowerCase() || null,
+    minCompleted: minCompleted ?? 0,
+    search: params.get("search")?.trim().toLowerCase() || null,
+    fields,
+  };
+}
+
+// Address prefix, with or without 0x, or part of a resolved name
+function matchesSearch(agent: AgentProfile, search: string): boolean {
+  const prefix = search.startsWith("0x") ? search : `0x${search}`;
+  if (agent.address.toLowerCase().startsWith(prefix)) return true;
+  const id = agent.identity;
+  return !!id && [id.name, id.ens, id.basename].some((n) => n?.toLowerCase().includes(search));
+}
+
+/** Filters, sorts and pages the leaderboard. Ties keep leaderboard rank order. */
+export function queryAgents(agents: AgentProfile[], q: AgentQuery) {
+  const key = SORT_KEYS[q.sort];
+  const direction = q.order === "asc" ? 1 : -1;
+
+  const matched = agents
+    .filter((a) => a.bountiesCompleted >= q.minCompleted)
+    .filter((a) => !q.tag || Object.hasOwn(a.tags, q.tag))
+    .filter((a) => !q.search || matchesSearch(a, q.search))
+    .sort((a, b) => direction * (key(a) - key(b)) || a.rank - b.rank);
+
+  const end = q.limit === null ? matched.length : q.offset + q.limit;
+  const page = matched.slice(q.offset, end);
+
+  const items = q.fields
+    ? page.map((a) => {
+        const projected: Partial<AgentProfile> = { address: a.address, rank: a.rank };
+        for (const f of q.fields!) (projected as Record<string, unknown>)[f] = a[f];
+        return projected;
+      })
+    : page;
+
+  return {
+    total: matched.length,
+    items,
+    nextCursor: end < matched.length ? encodeCursor(end) : null,
+  };
+}
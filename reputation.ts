@@ -0,0 +1,373 @@
+import { CHAINS, SCORED_TESTNETS, chainById, REPUTATION_ABI, type RegistryChain } from "./chain";
+import { getIndexedFeedback, indexerReady, onNewFeedback } from "./indexer";
+import { cacheLookups } from "./metrics";
+import type { MergedReputation, OnChainReputation } from "./types";
+
+// --- ERC-8004 Contract Reads ---
+
+// Single-address lookups (the /api/reputation route takes any address) are cached
+// per chain and address for a short TTL, and concurrent lookups share one read.
+// The cache is bounded; the oldest entries are dropped first.
+const REPUTATION_CACHE_TTL = parseInt(process.env.REPUTATION_CACHE_TTL_MS || "60000", 10);
+const REPUTATION_CACHE_SIZE = parseInt(process.env.REPUTATION_CACHE_SIZE || "10000", 10);
+const reputationCache = new Map<string, { at: number; value: Promise<OnChainReputation> }>();
+
+// getReputation() only changes when feedback lands, so scores are also dropped as
+// soon as the indexer sees a new entry for that agent on that chain. Any address
+// can be looked up, so this cache has the same size and TTL bounds.
+const scoreCache = new Map<string, { at: number; value: number }>();
+const cacheKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+function cacheScore(key: string, value: number): void {
+  scoreCache.delete(key);
+  if (scoreCache.size >= REPUTATION_CACHE_SIZE) scoreCache.delete(scoreCache.keys().next().value!);
+  scoreCache.set(key, { at: Date.now(), value });
+}
+
+onNewFeedback((chainId, agent) => {
+  scoreCache.delete(cacheKey(chainId, agent));
+  reputationCache.delete(cacheKey(chainId, agent));
+});
+
+async function readReputationScore(chain: RegistryChain, address: string): Promise<number> {
+  const key = cacheKey(chain.chainId, address);
+  const cached = scoreCache.get(key);
+  const fresh = cached && Date.now() - cached.at < REPUTATION_CACHE_TTL;
+  cacheLookups.inc({ cache: "reputation_score", result: fresh ? "hit" : "miss" });
+  if (fresh) return cached.value;
+
+  const score = await chain.client
+    .readContract({
+      address: chain.registry,
+      abi: REPUTATION_ABI,
+      functionName: "getReputation",
+      args: [address as `0x${string}`],
+    })
+    .then(Number)
+    .catch(() => 0);
+  cacheScore(key, score);
+  return score;
+}
+
+export function fetchOnChainReputation(chain: RegistryChain, address: string): Promise<OnChainReputation> {
+  const key = cacheKey(chain.chainId, address);
+  const cached = reputationCache.get(key);
+  const fresh = cached && Date.now() - cached.at < REPUTATION_CACHE_TTL;
+  cacheLookups.inc({ cache: "reputation", result: fresh ? "hit" : "miss" });
+  if (fresh) return cached.value;
+
+  reputationCache.delete(key);
+  if (reputationCache.size >= REPUTATION_CACHE_SIZE) reputationCache.delete(reputationCache.keys().next().value!);
+  const value = readOnChainReputation(chain, address);
+  reputationCache.set(key, { at: Date.now(), value });
+  return value;
+}
+
+async function readOnChainReputation(chain: RegistryChain, address: string): Promise<OnChainReputation> {
+  const { chainId } = chain;
+  // Once the log indexer has caught up, feedback comes from the local store
+  if (indexerReady(chainId)) {
+    return {
+      chainId,
+      address,
+      reputationScore: await readReputationScore(chain, address),
+      feedback: getIndexedFeedback(chainId, address),
+    };
+  }
+
+  try {
+    // Try reading reputation score from the ERC-8004 registry
+    const [reputation, feedback] = await Promise.allSettled([
+      chain.client.readContract({
+        address: chain.registry,
+        abi: REPUTATION_ABI,
+        functionName: "getReputation",
+        args: [address as `0x${string}`],
+      }),
+      chain.client.readContract({
+        address: chain.registry,
+        abi: REPUTATION_ABI,
+        functionName: "getFeedback",
+        args: [address as `0x${string}`],
+      }),
+    ]);
+
+    const repScore =
+      reputation.status === "fulfilled" ? Number(reputation.value) : 0;
+
+    const feedbackEntries: OnChainReputation["feedback"] = [];
+    if (feedback.status === "fulfilled" && Array.isArray(feedback.value)) {
+      for (const f of feedback.value) {
+        feedbackEntries.push({
+          from: String(f.from || ""),
+          score: Number(f.score || 0),
+          comment: String(f.comment || ""),
+          timestamp: Number(f.timestamp || 0),
+        });
+      }
+    }
+
+    return { chainId, address, reputationScore: repScore, feedback: feedbackEntries };
+  } catch {
+    // Contract may not have data for this agent yet
+    return { chainId, address, reputationScore: 0, feedback: [] };
+  }
+}
+
+/** Sums per-chain records into one reputation per lowercased address; testnets are left out of the sums unless SCORED_TESTNETS. */
+export function mergeReputations(reps: Iterable<OnChainReputation>): Map<string, MergedReputation> {
+  const merged = new Map<string, MergedReputation>();
+  for (const rep of reps) {
+    const addrLower = rep.address.toLowerCase();
+    const entry = merged.get(addrLower) ?? { address: rep.address, reputationScore: 0, feedback: [], chains: [] };
+    const chain = chainById(rep.chainId);
+    const testnet = chain?.testnet ?? false;
+    if (!testnet || SCORED_TESTNETS) {
+      entry.reputationScore += rep.reputationScore;
+      entry.feedback.push(...rep.feedback);
+    }
+    entry.chains.push({
+      chainId: rep.chainId,
+      chain: chain?.key ?? String(rep.chainId),
+      reputationScore: rep.reputationScore,
+      feedbackCount: rep.feedback.length,
+      testnet,
+    });
+    merged.set(addrLower, entry);
+  }
+  for (const entry of merged.values()) {
+    entry.feedback.sort((a, b) => a.timestamp - b.timestamp);
+    entry.chains.sort((a, b) => a.chainId - b.chainId);
+  }
+  return merged;
+}
+
+// --- Registry Enumeration ---
+//
+// The registry is walked in pages of getAgentByIndex calls; each page's
+// reputation reads are batched through multicall as well. Pages run with a
+// small concurrency limit and are retried with backoff before being skipped.
+// Each chain's registry is walked separately.
+
+const ENUM_PAGE_SIZE = parseInt(process.env.ENUM_PAGE_SIZE || "100", 10);
+const ENUM_CONCURRENCY = parseInt(process.env.ENUM_CONCURRENCY || "2", 10);
+const ENUM_RETRIES = parseInt(process.env.ENUM_RETRIES || "3", 10);
+
+interface EnumerationState {
+  running: boolean;
+  total: number;
+  enumerated: number;
+  failed: number;
+  pagesDone: number;
+  pagesTotal: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+const enumerations = new Map<number, EnumerationState>(
+  CHAINS.map((chain) => [
+    chain.chainId,
+    {
+      running: false,
+      total: 0,
+      enumerated: 0,
+      failed: 0,
+      pagesDone: 0,
+      pagesTotal: 0,
+      startedAt: null,
+      finishedAt: null,
+      error: null,
+    },
+  ])
+);
+const inflight = new Map<number, Promise<Map<string, OnChainReputation>>>();
+
+export function enumerationStatus(chainId: number): EnumerationState | null {
+  const state = enumerations.get(chainId);
+  return state ? { ...state } : null;
+}
+
+async function withRetry<T>(fn: () => Promise<T>, retries = ENUM_RETRIES): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= retries) throw err;
+      await Bun.sleep(500 * 2 ** attempt);
+    }
+  }
+}
+
+// Run fn over items with at most `limit` in flight at once
+async function runPool<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await fn(items[next++]);
+  });
+  await Promise.all(workers);
+}
+
+// Reputation (and, until the indexer is ready, feedback) for one page of addresses
+async function readReputationPage(chain: RegistryChain, addresses: string[]): Promise<OnChainReputation[]> {
+  const { chainId, client, registry } = chain;
+  const agents = addresses as `0x${string}`[];
+  const withFeedback = !indexerReady(chainId);
+
+  const [scores, feedback] = await Promise.all([
+    withRetry(() =>
+      client.multicall({
+        contracts: agents.map((agent) => ({
+          address: registry,
+          abi: REPUTATION_ABI,
+          functionName: "getReputation" as const,
+          args: [agent] as const,
+        })),
+        allowFailure: true,
+      })
+    ),
+    withFeedback
+      ? withRetry(() =>
+          client.multicall({
+            contracts: agents.map((agent) => ({
+              address: registry,
+              abi: REPUTATION_ABI,
+              functionName: "getFeedback" as const,
+              args: [agent] as const,
+            })),
+            allowFailure: true,
+          })
+        )
+      : null,
+  ]);
+
+  return agents.map((address, i) => {
+    const score = scores[i].status === "success" ? Number(scores[i].result) : 0;
+    cacheScore(cacheKey(chainId, address), score);
+
+    let entries: OnChainReputation["feedback"] = getIndexedFeedback(chainId, address);
+    const fb = feedback?.[i];
+    if (fb) {
+      entries =
+        fb.status === "success"
+          ? fb.result.map((f) => ({
+              from: String(f.from || ""),
+              score: Number(f.score || 0),
+              comment: String(f.comment || ""),
+              timestamp: Number(f.timestamp || 0),
+            }))
+          : [];
+    }
+    return { chainId, address, reputationScore: score, feedback: entries };
+  });
+}
+
+/** Multicall-batched reputation reads for many addresses, in bounded pages. Failed pages are skipped. */
+export async function fetchOnChainReputations(
+  chain: RegistryChain,
+  addresses: string[]
+): Promise<OnChainReputation[]> {
+  const pages: string[][] = [];
+  for (let i = 0; i < addresses.length; i += ENUM_PAGE_SIZE) {
+    pages.push(addresses.slice(i, i + ENUM_PAGE_SIZE));
+  }
+
+  const out: OnChainReputation[] = [];
+  await runPool(pages, ENUM_CONCURRENCY, async (page) => {
+    out.push(...(await readReputationPage(chain, page).catch(() => [])));
+  });
+  return out;
+}
+
+async function enumeratePage(
+  chain: RegistryChain,
+  enumeration: EnumerationState,
+  start: number,
+  end: number,
+  out: Map<string, OnChainReputation>
+): Promise<void> {
+  const { client, registry } = chain;
+  const indices = Array.from({ length: end - start }, (_, i) => BigInt(start + i));
+  const results = await withRetry(() =>
+    client.multicall({
+      contracts: indices.map((index) => ({
+        address: registry,
+        abi: REPUTATION_ABI,
+        functionName: "getAgentByIndex" as const,
+        args: [index] as const,
+      })),
+      allowFailure: true,
+    })
+  );
+
+  const addresses = results.flatMap((r) => (r.status === "success" ? [r.result] : []));
+  const reps = await readReputationPage(chain, addresses);
+  for (const rep of reps) out.set(rep.address.toLowerCase(), rep);
+
+  enumeration.enumerated += addresses.length;
+  enumeration.failed += indices.length - addresses.length;
+}
+
+async function enumerateRegistry(chain: RegistryChain): Promise<Map<string, OnChainReputation>> {
+  const reputationMap = new Map<string, OnChainReputation>();
+  const enumeration = enumerations.get(chain.chainId)!;
+
+  const count = Number(
+    await chain.client.readContract({
+      address: chain.registry,
+      abi: REPUTATION_ABI,
+      functionName: "getAgentCount",
+    })
+  );
+
+  const pages: Array<[number, number]> = [];
+  for (let start = 0; start < count; start += ENUM_PAGE_SIZE) {
+    pages.push([start, Math.min(start + ENUM_PAGE_SIZE, count)]);
+  }
+
+  Object.assign(enumeration, {
+    running: true,
+    total: count,
+    enumerated: 0,
+    failed: 0,
+    pagesDone: 0,
+    pagesTotal: pages.length,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    error: null,
+  });
+
+  await runPool(pages, ENUM_CONCURRENCY, async ([start, end]) => {
+    try {
+      await enumeratePage(chain, enumeration, start, end, reputationMap);
+    } catch {
+      // Page exhausted its retries; keep going with the rest of the registry
+      enumeration.failed += end - start;
+    }
+    enumeration.pagesDone++;
+  });
+
+  enumeration.running = false;
+  enumeration.finishedAt = new Date().toISOString();
+  return reputationMap;
+}
+
+export async function fetchAllOnChainAgents(chain: RegistryChain): Promise<Map<string, OnChainReputation>> {
+  // Concurrent cache misses share a single walk of the registry
+  let walk = inflight.get(chain.chainId);
+  if (!walk) {
+    walk = enumerateRegistry(chain)
+      .catch((err) => {
+        // Contract may not support enumeration - that's fine, we'll look up individually
+        const enumeration = enumerations.get(chain.chainId)!;
+        enumeration.running = false;
+        enumeration.error = err instanceof Error ? err.message : String(err);
+        return new Map<string, OnChainReputation>();
+      })
+      .finally(() => {
+        inflight.delete(chain.chainId);
+      });
+    inflight.set(chain.chainId, walk);
+  }
+  return walk;
+}
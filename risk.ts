@@ -0,0 +1,187 @@
+import type { Bounty, MergedReputation, RiskLevel } from "./types";
+
+// --- Sybil & Collusion Detection ---
+//
+// Builds the rater -> agent feedback graph from every agent's on-chain
+// feedback and flags patterns typical of gamed reputation. Flags are signals
+// for a human reviewer, not verdicts; severity reflects how hard each pattern
+// is to explain innocently.
+
+const DAY = 86_400;
+const FRESH_WINDOW = 7 * DAY;
+const BURST_WINDOW = DAY;
+const BURST_MIN = 3;
+
+export type RiskFlagType =
+  | "self-rating"
+  | "reciprocal-rating"
+  | "rating-ring"
+  | "fresh-rater-burst"
+  | "single-target-raters"
+  | "claimer-rater-overlap";
+
+export interface RiskFlag {
+  type: RiskFlagType;
+  severity: Exclude<RiskLevel, "none">;
+  detail: string;
+  /** Counterparty addresses involved, lowercased */
+  addresses: string[];
+}
+
+export interface RiskReport {
+  address: string;
+  level: RiskLevel;
+  flags: RiskFlag[];
+  stats: { feedbackCount: number; uniqueRaters: number };
+}
+
+const SEVERITY: Record<RiskLevel, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+export function emptyRiskReport(address: string): RiskReport {
+  return { address, level: "none", flags: [], stats: { feedbackCount: 0, uniqueRaters: 0 } };
+}
+
+/** Analyses the whole feedback graph at once; returns a report for every agent that received feedback. */
+export function analyzeRisk(
+  bounties: Bounty[],
+  onChainData: Map<string, MergedReputation>
+): Map<string, RiskReport> {
+  // rater -> agent -> entries, plus first-seen time for every address
+  const edges = new Map<string, Map<string, MergedReputation["feedback"]>>();
+  const firstSeen = new Map<string, number>();
+  const seen = (addr: string, t: number) => {
+    if (t > 0 && t < (firstSeen.get(addr) ?? Infinity)) firstSeen.set(addr, t);
+  };
+
+  for (const [agent, rep] of onChainData) {
+    for (const f of rep.feedback) {
+      const rater = f.from.toLowerCase();
+      if (!rater) continue;
+      if (!edges.has(rater)) edges.set(rater, new Map());
+      const targets = edges.get(rater)!;
+      if (!targets.has(agent)) targets.set(agent, []);
+      targets.get(agent)!.push(f);
+      seen(rater, f.timestamp);
+      seen(agent, f.timestamp);
+    }
+  }
+
+  const claimers = new Set<string>();
+  for (const b of bounties) {
+    if (!b.claimedBy) continue;
+    const addr = b.claimedBy.toLowerCase();
+    claimers.add(addr);
+    seen(addr, Math.floor(Date.parse(b.createdAt || "") / 1000) || 0);
+  }
+
+  const positive = (rater: string, agent: string) =>
+    (edges.get(rater)?.get(agent) || []).some((f) => f.score > 0);
+
+  const reports = new Map<string, RiskReport>();
+
+  for (const [agent, rep] of onChainData) {
+    if (rep.feedback.length === 0) continue;
+    const flags: RiskFlag[] = [];
+    const raters = new Set(rep.feedback.map((f) => f.from.toLowerCase()).filter(Boolean));
+
+    if (raters.has(agent)) {
+      const count = rep.feedback.filter((f) => f.from.toLowerCase() === agent).length;
+      flags.push({
+        type: "self-rating",
+        severity: "high",
+        detail: `${count} feedback ${count === 1 ? "entry" : "entries"} submitted by the agent's own address`,
+        addresses: [agent],
+      });
+    }
+
+    const others = [...raters].filter((r) => r !== agent);
+
+    const reciprocal = others.filter((r) => positive(r, agent) && positive(agent, r));
+    if (reciprocal.length > 0) {
+      flags.push({
+        type: "reciprocal-rating",
+        severity: "medium",
+        detail: `Exchanged positive feedback with ${reciprocal.length} address(es)`,
+        addresses: reciprocal,
+      });
+    }
+
+    // Three-party rings: agent -> b -> c -> agent, all positive
+    const ring = new Set<string>();
+    for (const b of edges.get(agent)?.keys() || []) {
+      if (b === agent || !positive(agent, b)) continue;
+      for (const c of edges.get(b)?.keys() || []) {
+        if (c !== agent && c !== b && positive(b, c) && positive(c, agent)) {
+          ring.add(b);
+          ring.add(c);
+        }
+      }
+    }
+    if (ring.size > 0) {
+      flags.push({
+        type: "rating-ring",
+        severity: "medium",
+        detail: "Part of a closed loop of positive feedback between three or more addresses",
+        addresses: [...ring],
+      });
+    }
+
+    // Feedback from addresses first seen shortly before rating, clustered in time
+    const fresh = rep.feedback
+      .filter((f) => {
+        const rater = f.from.toLowerCase();
+        return rater !== agent && f.timestamp - (firstSeen.get(rater) ?? f.timestamp) <= FRESH_WINDOW;
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+    let burst: typeof fresh = [];
+    for (let i = 0, j = 0; j < fresh.length; j++) {
+      while (fresh[j].timestamp - fresh[i].timestamp > BURST_WINDOW) i++;
+      if (j - i + 1 > burst.length) burst = fresh.slice(i, j + 1);
+    }
+    if (burst.length >= BURST_MIN) {
+      flags.push({
+        type: "fresh-rater-burst",
+        severity: burst.length >= BURST_MIN * 2 ? "high" : "medium",
+        detail: `${burst.length} feedback entries within 24h from addresses first seen less than 7 days earlier`,
+        addresses: [...new Set(burst.map((f) => f.from.toLowerCase()))],
+      });
+    }
+
+    const singleTarget = others.filter((r) => edges.get(r)?.size === 1);
+    if (singleTarget.length >= BURST_MIN && singleTarget.length / Math.max(1, others.length) >= 0.5) {
+      flags.push({
+        type: "single-target-raters",
+        severity: singleTarget.length >= 5 && singleTarget.length / others.length >= 0.8 ? "medium" : "low",
+        detail: `${singleTarget.length} of ${others.length} raters have never rated any other agent`,
+        addresses: singleTarget,
+      });
+    }
+
+    const claimerRaters = others.filter((r) => claimers.has(r));
+    if (claimerRaters.length > 0) {
+      const fromClaimers = rep.feedback.filter(
+        (f) => f.score > 0 && claimerRaters.includes(f.from.toLowerCase())
+      ).length;
+      const positiveTotal = rep.feedback.filter((f) => f.score > 0).length;
+      flags.push({
+        type: "claimer-rater-overlap",
+        severity: positiveTotal > 0 && fromClaimers / positiveTotal >= 0.5 ? "medium" : "low",
+        detail: `${claimerRaters.length} rater(s) also claim bounties on the board`,
+        addresses: claimerRaters,
+      });
+    }
+
+    const level = flags.reduce<RiskLevel>(
+      (max, f) => (SEVERITY[f.severity] > SEVERITY[max] ? f.severity : max),
+      "none"
+    );
+    reports.set(agent, {
+      address: rep.address,
+      level,
+      flags,
+      stats: { feedbackCount: rep.feedback.length, uniqueRaters: raters.size },
+    });
+  }
+
+  return reports;
+}
@@ -0,0 +1,126 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { AgentProfile, MergedReputation, ScoreComponent } from "./types";
+
+// --- Composite Reputation Scoring ---
+//
+// Each component is normalised to 0..1 and the composite is the weighted mean
+// scaled to 0..100. Profiles in the config file only need to list what they
+// change; everything else is inherited from the default profile.
+
+export interface ScoringProfile {
+  weights: Record<ScoreComponent, number>;
+  /** Bayesian prior for success rate: `weight` phantom claims at `rate` */
+  successPrior: { rate: number; weight: number };
+  /** Phantom neutral feedback entries blended into the sentiment average */
+  feedbackPriorWeight: number;
+  /** Feedback scores are clamped to ±feedbackScoreMax before averaging */
+  feedbackScoreMax: number;
+  recencyHalfLifeDays: number;
+}
+
+interface ScoringConfig {
+  defaultProfile: string;
+  profiles: Record<string, Partial<ScoringProfile>>;
+}
+
+const CONFIG_PATH = process.env.SCORING_CONFIG || join(import.meta.dir, "scoring.config.json");
+const DAY = 86_400_000;
+
+const config = JSON.parse(readFileSync(CONFIG_PATH, "utf8")) as ScoringConfig;
+const baseProfile = config.profiles[config.defaultProfile] as ScoringProfile;
+if (!baseProfile?.weights) {
+  throw new Error(`Scoring config ${CONFIG_PATH} has no complete "${config.defaultProfile}" profile`);
+}
+
+export const DEFAULT_PROFILE = config.defaultProfile;
+
+export const SCORING_PROFILES: Record<string, ScoringProfile> = Object.fromEntries(
+  Object.entries(config.profiles).map(([name, p]) => [
+    name,
+    { ...baseProfile, ...p, weights: { ...baseProfile.weights, ...p.weights } },
+  ])
+);
+
+// Feedback timestamps are unix seconds; bounty dates are ISO strings
+function lastActivity(agent: AgentProfile, feedback: MergedReputation["feedback"]): number {
+  let latest = 0;
+  for (const h of agent.history) {
+    const t = Date.parse(h.date);
+    if (t > latest) latest = t;
+  }
+  for (const f of feedback) {
+    if (f.timestamp * 1000 > latest) latest = f.timestamp * 1000;
+  }
+  return latest;
+}
+
+function decay(ageMs: number, halfLifeDays: number): number {
+  return Math.pow(0.5, Math.max(0, ageMs) / (halfLifeDays * DAY));
+}
+
+/**
+ * Scores, sorts and ranks agents in place under the given profile. Feedback is
+ * weighted by the rater's own reputation and by age; self-feedback is ignored.
+ */
+export function scoreAgents(
+  agents: AgentProfile[],
+  onChainData: Map<string, MergedReputation>,
+  profile: ScoringProfile = SCORING_PROFILES[DEFAULT_PROFILE],
+  now = Date.now()
+): AgentProfile[] {
+  const maxRep = Math.max(0, ...agents.map((a) => a.onChainReputation));
+  const maxEarnings = Math.max(0, ...agents.map((a) => a.totalEarnings));
+  const weightSum = Object.values(profile.weights).reduce((s, w) => s + w, 0) || 1;
+
+  for (const agent of agents) {
+    const addrLower = agent.address.toLowerCase();
+    const feedback = onChainData.get(addrLower)?.feedback || agent.recentFeedback;
+
+    let sentiment = 0;
+    let sentimentWeight = profile.feedbackPriorWeight;
+    for (const f of feedback) {
+      const rater = f.from.toLowerCase();
+      if (rater === addrLower) continue;
+      const raterRep = onChainData.get(rater)?.reputationScore || 0;
+      const w =
+        (1 + Math.log1p(raterRep)) *
+        decay(now - f.timestamp * 1000, profile.recencyHalfLifeDays);
+      sentiment += w * Math.max(-1, Math.min(1, f.score / profile.feedbackScoreMax));
+      sentimentWeight += w;
+    }
+
+    const { rate, weight } = profile.successPrior;
+    const active = lastActivity(agent, feedback);
+
+    const components: Record<ScoreComponent, number> = {
+      onChain: maxRep > 0 ? Math.log1p(agent.onChainReputation) / Math.log1p(maxRep) : 0,
+      feedback: (sentiment / sentimentWeight + 1) / 2,
+      successRate: (agent.bountiesCompleted + rate * weight) / (agent.bountiesClaimed + weight),
+      earnings: maxEarnings > 0 ? Math.log1p(agent.totalEarnings) / Math.log1p(maxEarnings) : 0,
+      recency: active > 0 ? decay(now - active, profile.recencyHalfLifeDays) : 0,
+    };
+
+    let total = 0;
+    agent.scoreBreakdown = {} as AgentProfile["scoreBreakdown"];
+    for (const key of Object.keys(components) as ScoreComponent[]) {
+      const points = (100 * profile.weights[key] * components[key]) / weightSum;
+      agent.scoreBreakdown[key] = {
+        value: Math.round(components[key] * 1000) / 1000,
+        weight: profile.weights[key],
+        points: Math.round(points * 10) / 10,
+      };
+      total += points;
+    }
+    agent.score = Math.round(total * 10) / 10;
+  }
+
+  agents.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.onChainReputation - a.onChainReputation ||
+      b.totalEarnings - a.totalEarnings
+  );
+  agents.forEach((agent, i) => (agent.rank = i + 1));
+  return agents;
+}
@@ -0,0 +1,104 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { createPublicClient, createWalletClient, defineChain, http, parseAbi, type Hex } from "viem";
+import { mnemonicToAccount } from "viem/accounts";
+import { REPUTATION_ABI } from "../chain";
+
+// --- Anvil Seed ---
+//
+// Deploys contracts/MockReputationRegistry.sol to a local anvil node (or
+// seeds the one at REGISTRY) and fills it with feedback from anvil's default
+// accounts: a well-rated agent, a mixed one, one with a self-rating and a
+// burst from fresh raters, and one that never claims a bounty. The dashboard
+// batches reads through Multicall3, so run anvil as a fork of a chain that
+// has it:
+//
+//   anvil --fork-url https://sepolia.base.org --chain-id 84532
+//   forge build --contracts contracts
+//   bun run scripts/seed-anvil.ts
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const ARTIFACT = join(import.meta.dir, "..", "out", "MockReputationRegistry.sol", "MockReputationRegistry.json");
+// anvil's default mnemonic; these accounts are funded on every anvil node, fork or not
+const MNEMONIC = "test test test test test test test test test test test junk";
+
+const REGISTER_ABI = parseAbi(["function register(address agent)"]);
+const account = (index: number) => mnemonicToAccount(MNEMONIC, { addressIndex: index });
+
+const deployer = account(0);
+const [alice, bob, carol, dave] = [1, 2, 3, 8].map(account);
+const [poster1, poster2, fresh1, fresh2] = [4, 5, 6, 7].map(account);
+
+const FEEDBACK: Array<[rater: typeof deployer, agent: typeof deployer, score: number, comment: string]> = [
+  [poster1, alice, 9, "Fast and thorough"],
+  [poster2, alice, 8, "Clean PR, good tests"],
+  [poster1, bob, 6, "Good work, a day late"],
+  [poster2, bob, -3, "Missed half the requirements"],
+  [carol, carol, 10, "Self-rating"],
+  [fresh1, carol, 10, "Amazing"],
+  [fresh2, carol, 10, "Amazing"],
+  [poster1, dave, 5, "Helped out on a review"],
+];
+
+async function main() {
+  const transport = http(RPC_URL);
+  const chainId = await createPublicClient({ transport }).getChainId();
+  const chain = defineChain({
+    id: chainId,
+    name: "anvil",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [RPC_URL] } },
+  });
+  const client = createPublicClient({ chain, transport });
+  const wallet = createWalletClient({ chain, transport });
+
+  let registry = process.env.REGISTRY as Hex | undefined;
+  let deployBlock: bigint | null = null;
+  if (!registry) {
+    let artifact: { abi: unknown[]; bytecode: { object: Hex } };
+    try {
+      artifact = JSON.parse(readFileSync(ARTIFACT, "utf8"));
+    } catch {
+      throw new Error(`No build output at ${ARTIFACT}; run \`forge build --contracts contracts\` first`);
+    }
+    const hash = await wallet.deployContract({ account: deployer, abi: artifact.abi, bytecode: artifact.bytecode.object });
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    if (!receipt.contractAddress) throw new Error(`Deployment ${hash} created no contract`);
+    registry = receipt.contractAddress;
+    deployBlock = receipt.blockNumber;
+    console.log(`Deployed MockReputationRegistry at ${registry} (block ${receipt.blockNumber})`);
+  }
+
+  // dave never claims a bounty, so the dashboard lists this account as an on-chain-only agent
+  await client.waitForTransactionReceipt({
+    hash: await wallet.writeContract({
+      account: deployer,
+      address: registry,
+      abi: REGISTER_ABI,
+      functionName: "register",
+      args: [dave.address],
+    }),
+  });
+
+  for (const [rater, agent, score, comment] of FEEDBACK) {
+    const hash = await wallet.writeContract({
+      account: rater,
+      address: registry,
+      abi: REPUTATION_ABI,
+      functionName: "giveFeedback",
+      args: [agent.address, score, comment],
+    });
+    await client.waitForTransactionReceipt({ hash });
+    console.log(`${rater.address} -> ${agent.address}: ${score} "${comment}"`);
+  }
+
+  const count = await client.readContract({ address: registry, abi: REPUTATION_ABI, functionName: "getAgentCount" });
+  console.log(`\n${count} agents registered on chain ${chainId}. Point the dashboard at it with, e.g.:`);
+  const from = deployBlock !== null ? ` BASE_SEPOLIA_DEPLOY_BLOCK=${deployBlock}` : "";
+  console.log(`  CHAINS=base-sepolia BASE_SEPOLIA_RPC_URL=${RPC_URL} BASE_SEPOLIA_REGISTRY=${registry}${from} bun run start`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
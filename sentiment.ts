@@ -0,0 +1,270 @@
+import { loadReputations } from "./db";
+import { getIdentity } from "./identity";
+import { mergeReputations } from "./reputation";
+import type { FeedbackEntry } from "./types";
+
+// --- Feedback Analysis ---
+//
+// Everything an agent's feedback says, not just the ten in recentFeedback:
+// positive and negative shares per month, the words and phrases raters keep
+// coming back to, and comments that were pasted or filled in from a template.
+// Plain string work over every indexed entry, with no language model or
+// external service. Summary, timeline, themes and duplicates always cover all
+// feedback; the filters only narrow the listed entries.
+
+export const FEEDBACK_PAGE_SIZE = 20;
+const SCORE_MIN = -10;
+const SCORE_MAX = 10;
+const MAX_QUERY_LENGTH = 100;
+const MAX_THEMES = 12;
+// A theme has to come up in at least this many distinct comments
+const MIN_THEME_COMMENTS = 2;
+
+// Function words and filler that say nothing about the work
+const STOPWORDS = new Set(
+  `a about above after again all also am an and any are as at be because been before being below between both but by
+  can could did do does doing done down during each even ever few for from further get got had has have having he her
+  here hers him his how i if in into is it its itself just let me more most much my no nor not now of off on once only
+  or other our ours out over own really same she should so some still such than that the their theirs them then there
+  these they this those through to too under until up upon very via was we well were what when where which while who
+  whom why will with within would yet you your yours agent bounty thanks thank`.split(/\s+/)
+);
+
+export interface SentimentCounts {
+  count: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  /** Shares of `count`, 0-1 */
+  positiveRatio: number;
+  negativeRatio: number;
+  averageScore: number | null;
+}
+
+export interface SentimentMonth extends SentimentCounts {
+  /** YYYY-MM, UTC */
+  month: string;
+}
+
+export interface FeedbackTheme {
+  /** A word or two-word phrase, lowercased */
+  term: string;
+  /** Distinct comments mentioning it */
+  comments: number;
+  /** Distinct raters behind those comments */
+  raters: number;
+  positive: number;
+  negative: number;
+  averageScore: number;
+}
+
+export interface DuplicateGroup {
+  /** exact: the same text after case, spacing and punctuation; template: the same once numbers, addresses and links are blanked */
+  kind: "exact" | "template";
+  /** The first comment in the group, as written */
+  example: string;
+  count: number;
+  raters: number;
+}
+
+export interface AnalyzedFeedback extends FeedbackEntry {
+  fromName: string | null;
+  /** Index into `duplicates`, or null for a one-off comment */
+  duplicateGroup: number | null;
+}
+
+export interface FeedbackFilter {
+  /** 1-based */
+  page: number;
+  minScore: number | null;
+  /** Case-insensitive match on the comment, rater address or rater name */
+  q: string | null;
+}
+
+export interface FeedbackAnalysis {
+  address: string;
+  summary: SentimentCounts;
+  timeline: SentimentMonth[];
+  themes: FeedbackTheme[];
+  duplicates: DuplicateGroup[];
+  filter: FeedbackFilter;
+  /** Entries matching the filter */
+  total: number;
+  pages: number;
+  /** One page of matching entries, newest first */
+  items: AnalyzedFeedback[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Reads `page`, `minScore` and `q`; unset ones fall back to the first page and no filtering. */
+export function parseFeedbackFilter(params: URLSearchParams): FeedbackFilter | { error: string } {
+  const page = params.get("page") || "1";
+  const minScore = params.get("minScore") || null;
+  const q = params.get("q")?.trim() || null;
+  if (!/^\d+$/.test(page) || Number(page) < 1) return { error: "page must be a positive integer" };
+  if (minScore !== null && (!/^-?\d+$/.test(minScore) || Number(minScore) < SCORE_MIN || Number(minScore) > SCORE_MAX)) {
+    return { error: `minScore must be an integer from ${SCORE_MIN} to ${SCORE_MAX}` };
+  }
+  if (q && q.length > MAX_QUERY_LENGTH) return { error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+  return { page: Number(page), minScore: minScore === null ? null : Number(minScore), q };
+}
+
+function counts(feedback: FeedbackEntry[]): SentimentCounts {
+  const count = feedback.length;
+  const positive = feedback.filter((f) => f.score > 0).length;
+  const negative = feedback.filter((f) => f.score < 0).length;
+  const total = feedback.reduce((s, f) => s + f.score, 0);
+  return {
+    count,
+    positive,
+    neutral: count - positive - negative,
+    negative,
+    positiveRatio: count > 0 ? round2(positive / count) : 0,
+    negativeRatio: count > 0 ? round2(negative / count) : 0,
+    averageScore: count > 0 ? round2(total / count) : null,
+  };
+}
+
+// Timestamps are in seconds, as the registry stores them
+function timeline(feedback: FeedbackEntry[]): SentimentMonth[] {
+  const byMonth = new Map<string, FeedbackEntry[]>();
+  for (const f of feedback) {
+    const month = new Date(f.timestamp * 1000).toISOString().slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), f]);
+  }
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, entries]) => ({ month, ...counts(entries) }));
+}
+
+// --- Comment Text ---
+
+const normalize = (comment: string) =>
+  comment
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Blanks the parts a template fills in per use; runs before punctuation is stripped so links and addresses stay whole
+const templateKey = (comment: string) =>
+  normalize(
+    comment
+      .toLowerCase()
+      .replace(/https?:\/\/\S+/g, " url ")
+      .replace(/0x[0-9a-f]+/g, " addr ")
+      .replace(/\d+(?:[.,]\d+)*/g, " num ")
+  );
+
+// Words of three letters or more that aren't stopwords, plus phrases of two such words side by side
+function terms(comment: string): Set<string> {
+  const words = normalize(comment).split(" ");
+  const keep = words.map((w) => w.length >= 3 && !STOPWORDS.has(w) && !/^\d+$/.test(w));
+  const found = new Set<string>();
+  words.forEach((w, i) => {
+    if (!keep[i]) return;
+    found.add(w);
+    if (keep[i + 1]) found.add(`${w} ${words[i + 1]}`);
+  });
+  return found;
+}
+
+function themes(feedback: FeedbackEntry[]): FeedbackTheme[] {
+  // Pasted and templated comments count once, so a burst of copies can't manufacture a theme
+  const seen = new Set<string>();
+  const byTerm = new Map<string, { comments: number; raters: Set<string>; scores: number[] }>();
+  for (const f of feedback) {
+    const key = templateKey(f.comment);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    for (const term of terms(f.comment)) {
+      const entry = byTerm.get(term) ?? { comments: 0, raters: new Set<string>(), scores: [] };
+      entry.comments++;
+      entry.raters.add(f.from.toLowerCase());
+      entry.scores.push(f.score);
+      byTerm.set(term, entry);
+    }
+  }
+  const recurring = [...byTerm.entries()].filter(([, e]) => e.comments >= MIN_THEME_COMMENTS);
+  // A word that only ever appears inside one recurring phrase is shown as the phrase
+  const phrases = recurring.filter(([term]) => term.includes(" "));
+  return recurring
+    .filter(([term, e]) => term.includes(" ") || !phrases.some(([p, pe]) => p.split(" ").includes(term) && pe.comments === e.comments))
+    .map(([term, e]) => ({
+      term,
+      comments: e.comments,
+      raters: e.raters.size,
+      positive: e.scores.filter((s) => s > 0).length,
+      negative: e.scores.filter((s) => s < 0).length,
+      averageScore: round2(e.scores.reduce((s, n) => s + n, 0) / e.scores.length),
+    }))
+    .sort((a, b) => b.raters - a.raters || b.comments - a.comments || a.term.localeCompare(b.term))
+    .slice(0, MAX_THEMES);
+}
+
+// Groups repeated comments, largest first; `membership` gives each entry's group index, by position in `feedback`
+function duplicates(feedback: FeedbackEntry[]): { groups: DuplicateGroup[]; membership: Array<number | null> } {
+  const bucket = (key: (f: FeedbackEntry) => string, indexes: number[]) => {
+    const buckets = new Map<string, number[]>();
+    for (const i of indexes) {
+      const k = key(feedback[i]);
+      if (k) buckets.set(k, [...(buckets.get(k) ?? []), i]);
+    }
+    return [...buckets.values()].filter((members) => members.length > 1);
+  };
+  const all = feedback.map((_, i) => i);
+  const exact = bucket((f) => normalize(f.comment), all);
+  // Template groups take what's left, so an exact group isn't reported twice
+  const grouped = new Set(exact.flat());
+  const template = bucket((f) => templateKey(f.comment), all.filter((i) => !grouped.has(i)));
+  const found = [
+    ...exact.map((members) => ({ kind: "exact" as const, members })),
+    ...template.map((members) => ({ kind: "template" as const, members })),
+  ].sort((a, b) => b.members.length - a.members.length);
+
+  const membership: Array<number | null> = feedback.map(() => null);
+  const groups = found.map(({ kind, members }, index) => {
+    members.forEach((i) => (membership[i] = index));
+    return {
+      kind,
+      example: feedback[members[0]].comment,
+      count: members.length,
+      raters: new Set(members.map((i) => feedback[i].from.toLowerCase())).size,
+    };
+  });
+  return { groups, membership };
+}
+
+function matches(f: AnalyzedFeedback, filter: FeedbackFilter): boolean {
+  if (filter.minScore !== null && f.score < filter.minScore) return false;
+  if (!filter.q) return true;
+  const q = filter.q.toLowerCase();
+  return [f.comment, f.from, f.fromName ?? ""].some((s) => s.toLowerCase().includes(q));
+}
+
+// --- Analysis ---
+
+/** Analyses an agent's feedback across every chain; an agent with none gets empty results, not null. */
+export function analyzeFeedback(address: string, filter: FeedbackFilter): FeedbackAnalysis {
+  const feedback = mergeReputations(loadReputations()).get(address.toLowerCase())?.feedback ?? [];
+  const { groups, membership } = duplicates(feedback);
+  const analyzed = feedback.map((f, i) => ({
+    ...f,
+    fromName: getIdentity(f.from)?.name ?? null,
+    duplicateGroup: membership[i],
+  }));
+  const matching = analyzed.filter((f) => matches(f, filter)).reverse();
+  const start = (filter.page - 1) * FEEDBACK_PAGE_SIZE;
+  return {
+    address,
+    summary: counts(feedback),
+    timeline: timeline(feedback),
+    themes: themes(feedback),
+    duplicates: groups,
+    filter,
+    total: matching.length,
+    pages: Math.ceil(matching.length / FEEDBACK_PAGE_SIZE),
+    items: matching.slice(start, start + FEEDBACK_PAGE_SIZE),
+  };
+}
@@ -0,0 +1,83 @@
+import { onReputationEvents, type ReputationEvent } from "./events";
+
+// --- Server-Sent Events ---
+//
+// Live clients receive each refresh event as an SSE message named after the
+// event type. Recent messages are kept so a reconnecting EventSource can
+// resume from its Last-Event-ID instead of reloading everything.
+
+const REPLAY_BUFFER = 500;
+const HEARTBEAT_INTERVAL = 15_000;
+
+const encoder = new TextEncoder();
+const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+const recent: Array<{ id: number; message: string }> = [];
+let nextId = 1;
+let started = false;
+
+function format(id: number, event: ReputationEvent): string {
+  return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function send(controller: ReadableStreamDefaultController<Uint8Array>, chunk: string): void {
+  try {
+    controller.enqueue(encoder.encode(chunk));
+  } catch {
+    // Stream already closed; the cancel callback will clean up
+    clients.delete(controller);
+  }
+}
+
+function broadcast(events: ReputationEvent[]): void {
+  for (const event of events) {
+    const id = nextId++;
+    const message = format(id, event);
+    recent.push({ id, message });
+    if (recent.length > REPLAY_BUFFER) recent.shift();
+    for (const controller of clients) send(controller, message);
+  }
+}
+
+export function streamStatus() {
+  return { clients: clients.size, lastEventId: nextId - 1 };
+}
+
+/** Opens an SSE stream, replaying anything newer than the request's Last-Event-ID. */
+export function openStream(req: Request): Response {
+  const lastEventId = Number(req.headers.get("Last-Event-ID") || 0);
+  let self: ReadableStreamDefaultController<Uint8Array>;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      self = controller;
+      clients.add(controller);
+      send(controller, `retry: 5000\n: connected\n\n`);
+      if (lastEventId > 0) {
+        for (const { id, message } of recent) if (id > lastEventId) send(controller, message);
+      }
+    },
+    cancel() {
+      clients.delete(self);
+    },
+  });
+  req.signal.addEventListener("abort", () => clients.delete(self));
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/** Forwards refresh events to connected clients and keeps idle connections alive. */
+export function startStream(): void {
+  if (started) return;
+  started = true;
+
+  onReputationEvents(broadcast);
+  setInterval(() => {
+    for (const controller of clients) send(controller, `: ping\n\n`);
+  }, HEARTBEAT_INTERVAL);
+}
@@ -0,0 +1,198 @@
+import { aggregateAgents } from "./aggregate";
+import { bountyApiStatus } from "./bounties";
+import { CHAINS } from "./chain";
+import { dataSource, offline } from "./datasource";
+import {
+  lastBountyUpdate,
+  lastSnapshotTime,
+  loadBounties,
+  loadReputations,
+  loadTransfers,
+  saveBounties,
+  saveReputations,
+  saveSnapshot,
+  storeCounts,
+} from "./db";
+import { applyRankChanges } from "./history";
+import { diffRefresh, emitReputationEvents, type RefreshState } from "./events";
+import { getIdentity } from "./identity";
+import { getIndexedAgents } from "./indexer";
+import { loadTokenMetadata, matchPayouts } from "./payments";
+import { enumerationStatus, mergeReputations } from "./reputation";
+import { analyzeRisk, emptyRiskReport, type RiskReport } from "./risk";
+import { DEFAULT_PROFILE, SCORING_PROFILES } from "./scoring";
+import type { AgentProfile, Bounty, FeedbackEntry, OnChainReputation } from "./types";
+
+// --- Background Sync ---
+//
+// Upstream data is pulled on an interval and written to SQLite; request
+// handlers only ever read the store.
+
+const SYNC_INTERVAL = parseInt(process.env.SYNC_INTERVAL_MS || "60000", 10);
+// Bounty data not refreshed for this long is reported as stale
+const STALE_AFTER = parseInt(process.env.STALE_AFTER_MS || String(SYNC_INTERVAL * 3), 10);
+const SNAPSHOT_INTERVAL = parseInt(process.env.SNAPSHOT_INTERVAL_MS || "3600000", 10);
+
+// Leaderboards per scoring profile, rebuilt from the store after every sync
+const cachedAgents = new Map<string, AgentProfile[]>();
+let riskReports = new Map<string, RiskReport>();
+let lastState: RefreshState | null = null;
+let firstSync: Promise<void> | null = null;
+let running = false;
+const status = {
+  lastSyncAt: null as string | null,
+  lastError: null as string | null,
+  bountySource: "none" as "upstream" | "store" | "none",
+};
+
+export function syncStatus() {
+  return { ...status, store: storeCounts() };
+}
+
+/** Lets clients tell current data from data left over after an upstream outage, and both from no data. */
+export function dataFreshness() {
+  const { lastSuccessAt, lastError } = bountyApiStatus();
+  const updatedAt = lastSuccessAt ? Date.parse(lastSuccessAt) : lastBountyUpdate();
+  const ageMs = updatedAt ? Date.now() - updatedAt : null;
+  const state =
+    storeCounts().bounties === 0
+      ? "empty"
+      : lastSuccessAt && !lastError && ageMs! <= STALE_AFTER
+        ? "fresh"
+        : "stale";
+  return {
+    state: state as "fresh" | "stale" | "empty",
+    bountiesUpdatedAt: updatedAt ? new Date(updatedAt).toISOString() : null,
+    ageSeconds: ageMs === null ? null : Math.round(ageMs / 1000),
+  };
+}
+
+function buildAgents(profile = DEFAULT_PROFILE): AgentProfile[] {
+  const bounties = loadBounties();
+  const reputations = mergeReputations(loadReputations());
+  const payouts = matchPayouts(bounties, loadTransfers());
+  const agents = aggregateAgents(bounties, reputations, SCORING_PROFILES[profile], payouts);
+
+  riskReports = analyzeRisk(bounties, reputations);
+  for (const agent of agents) {
+    const report = riskReports.get(agent.address.toLowerCase());
+    if (report) agent.risk = { level: report.level, flags: report.flags.map((f) => f.type) };
+    // Names resolved since the last sync show up on the next rebuild
+    agent.identity = getIdentity(agent.address);
+    agent.recentFeedback = agent.recentFeedback.map((f) => ({ ...f, fromName: getIdentity(f.from)?.name ?? null }));
+  }
+
+  // Snapshots are ranked under the default profile, so only it can be compared against them
+  if (profile === DEFAULT_PROFILE) applyRankChanges(agents);
+  return agents;
+}
+
+function refreshState(agents: AgentProfile[], registered: Set<string> | null): RefreshState {
+  const feedback = new Map<string, FeedbackEntry[]>();
+  for (const [address, rep] of mergeReputations(loadReputations())) feedback.set(address, rep.feedback);
+  return { agents, feedback, registered };
+}
+
+/** Pulls bounties and every chain's on-chain reputation, persists them and takes a snapshot when one is due. */
+export async function syncOnce(): Promise<void> {
+  const [bountiesRes, ...onChainData] = await Promise.allSettled([
+    dataSource.fetchBounties(),
+    ...CHAINS.map((chain) => dataSource.fetchAllOnChainAgents(chain)),
+  ]);
+
+  if (bountiesRes.status === "fulfilled") {
+    saveBounties(bountiesRes.value.bounties);
+    status.bountySource = "upstream";
+  } else {
+    // Keep serving whatever the last successful sync stored
+    const reason = bountiesRes.reason instanceof Error ? bountiesRes.reason.message : String(bountiesRes.reason);
+    console.error(`Bounty API unavailable, serving stored bounties: ${reason}`);
+    status.bountySource = "store";
+  }
+
+  const bounties = loadBounties();
+  const claimers = bounties.filter((b: Bounty) => b.claimedBy).map((b: Bounty) => b.claimedBy!.toLowerCase());
+  // Only a complete walk of every registry can tell which agents are new
+  let registered: Set<string> | null = new Set();
+
+  for (const [i, chain] of CHAINS.entries()) {
+    const result = onChainData[i];
+    const onChain = result.status === "fulfilled" ? result.value : new Map<string, OnChainReputation>();
+    const walk = enumerationStatus(chain.chainId);
+    if (registered && walk && !walk.error && walk.failed === 0) {
+      for (const addr of onChain.keys()) registered.add(addr);
+    } else {
+      registered = null;
+    }
+
+    // For agents from bounty data, also fetch their individual on-chain reputation.
+    // Agents that have received feedback are known to the indexer even if unclaimed
+    const uniqueAddresses = new Set([...claimers, ...getIndexedAgents(chain.chainId)]);
+    const missing = [...uniqueAddresses].filter((addr) => !onChain.has(addr));
+    for (const rep of await dataSource.fetchOnChainReputations(chain, missing)) {
+      if (rep.reputationScore > 0 || rep.feedback.length > 0) {
+        onChain.set(rep.address.toLowerCase(), rep);
+      }
+    }
+    saveReputations(onChain.values());
+  }
+
+  // Token decimals must be known before amounts are aggregated; offline, bounties' own payment.decimals (or USDC's) are used
+  if (!offline) await loadTokenMetadata(bounties);
+  const agents = buildAgents();
+  cachedAgents.clear();
+  cachedAgents.set(DEFAULT_PROFILE, agents);
+
+  const state = refreshState(agents, registered);
+  if (lastState) emitReputationEvents(diffRefresh(lastState, state));
+  lastState = state;
+
+  const now = Date.now();
+  if (now - lastSnapshotTime() >= SNAPSHOT_INTERVAL && agents.length > 0) {
+    saveSnapshot(agents, now);
+  }
+  status.lastSyncAt = new Date(now).toISOString();
+}
+
+/** Runs a sync immediately and then every SYNC_INTERVAL. */
+export function startSync(): void {
+  if (running) return;
+  running = true;
+
+  // Diff the first sync against what the store already holds, so changes
+  // that landed while the server was down still produce events
+  const counts = storeCounts();
+  if (counts.bounties > 0 || counts.reputations > 0) lastState = refreshState(buildAgents(), null);
+
+  const tick = async () => {
+    try {
+      await syncOnce();
+      status.lastError = null;
+    } catch (err) {
+      status.lastError = err instanceof Error ? err.message : String(err);
+      console.error(`Sync error: ${status.lastError}`);
+    }
+    setTimeout(tick, SYNC_INTERVAL);
+  };
+  firstSync = tick();
+}
+
+/** Full sybil/collusion report for one agent, from the latest sync. */
+export async function getRiskReport(address: string): Promise<RiskReport> {
+  await getAgents();
+  return riskReports.get(address.toLowerCase()) ?? emptyRiskReport(address);
+}
+
+/** The leaderboard ranked under a scoring profile (see scoring.config.json). */
+export async function getAgents(profile = DEFAULT_PROFILE): Promise<AgentProfile[]> {
+  const cached = cachedAgents.get(profile);
+  if (cached) return cached;
+
+  // On a cold store there is nothing to serve until the first sync lands
+  const counts = storeCounts();
+  if (counts.bounties === 0 && counts.reputations === 0 && firstSync) await firstSync;
+
+  const agents = cachedAgents.get(profile) ?? buildAgents(profile);
+  cachedAgents.set(profile, agents);
+  return agents;
+}
@@ -0,0 +1,71 @@
+import type { AgentProfile } from "./types";
+
+// --- Per-Tag Leaderboards ---
+
+export const TAG_SORT_KEYS = ["completed", "earnings", "successRate"] as const;
+
+export type TagSortKey = (typeof TAG_SORT_KEYS)[number];
+
+export interface TagLeaderboardEntry {
+  rank: number;
+  address: string;
+  /** Resolved display name, if any */
+  name: string | null;
+  overallRank: number;
+  score: number;
+  claimed: number;
+  completed: number;
+  earnings: number;
+  successRate: number;
+}
+
+/** Every tag seen in claimed bounties, busiest first. Tags are lowercased when agents are aggregated. */
+export function listTags(agents: AgentProfile[]) {
+  const tags = new Map<string, { tag: string; agents: number; claimed: number; completed: number; earnings: number }>();
+  for (const agent of agents) {
+    for (const [tag, stats] of Object.entries(agent.tagStats)) {
+      const summary = tags.get(tag) ?? { tag, agents: 0, claimed: 0, completed: 0, earnings: 0 };
+      summary.agents++;
+      summary.claimed += stats.claimed;
+      summary.completed += stats.completed;
+      summary.earnings += stats.earnings;
+      tags.set(tag, summary);
+    }
+  }
+  return [...tags.values()].sort((a, b) => b.completed - a.completed || b.claimed - a.claimed);
+}
+
+/**
+ * Ranks agents within a single tag using only that tag's bounties. The chosen
+ * key sorts first; the other two break ties, then the overall leaderboard rank.
+ */
+export function tagLeaderboard(
+  agents: AgentProfile[],
+  tag: string,
+  sort: TagSortKey = "completed"
+): TagLeaderboardEntry[] {
+  const key = tag.toLowerCase();
+  const order = [sort, ...TAG_SORT_KEYS.filter((k) => k !== sort)];
+
+  const entries = agents.flatMap((agent) => {
+    const stats = Object.hasOwn(agent.tagStats, key) ? agent.tagStats[key] : undefined;
+    if (!stats) return [];
+    return [
+      {
+        rank: 0,
+        address: agent.address,
+        name: agent.identity?.name ?? null,
+        overallRank: agent.rank,
+        score: agent.score,
+        ...stats,
+      },
+    ];
+  });
+
+  entries.sort((a, b) => {
+    for (const k of order) if (b[k] !== a[k]) return b[k] - a[k];
+    return a.overallRank - b.overallRank;
+  });
+  entries.forEach((e, i) => (e.rank = i + 1));
+  return entries;
+}
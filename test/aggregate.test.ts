@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import { aggregateAgents } from "../aggregate";
+import type { Bounty, MergedReputation } from "../types";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const DAVE = "0x23618e81E3f5cdF7f54C3d65f7FBc0aBf5B21E8f";
+const POSTER = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+
+let nextId = 1;
+function bounty(fields: Partial<Bounty>): Bounty {
+  return {
+    id: String(nextId++),
+    title: "Bounty",
+    description: "",
+    status: "completed",
+    reward: "",
+    rewardFormatted: "",
+    tags: [],
+    createdAt: "2026-08-01T00:00:00.000Z",
+    completedAt: "2026-08-02T00:00:00.000Z",
+    ...fields,
+  };
+}
+
+function reputation(address: string, reputationScore: number, feedbackScores: number[] = []): MergedReputation {
+  return {
+    address,
+    reputationScore,
+    feedback: feedbackScores.map((score, i) => ({ from: POSTER, score, comment: "", timestamp: 1785542400 + i })),
+    chains: [{ chainId: 31337, chain: "local", reputationScore, feedbackCount: feedbackScores.length, testnet: false }],
+  };
+}
+
+const onChain = (...reps: MergedReputation[]) => new Map(reps.map((r) => [r.address.toLowerCase(), r]));
+const find = (agents: ReturnType<typeof aggregateAgents>, address: string) =>
+  agents.find((a) => a.address.toLowerCase() === address.toLowerCase());
+
+describe("aggregateAgents", () => {
+  test("merges lowercase and checksummed claimers into one agent", () => {
+    const agents = aggregateAgents(
+      [
+        bounty({ claimedBy: ALICE, reward: "10000000", tags: ["frontend"] }),
+        bounty({ claimedBy: ALICE.toLowerCase(), reward: "5000000", tags: ["frontend"] }),
+        bounty({ claimedBy: ALICE.toUpperCase().replace("0X", "0x"), status: "claimed", tags: ["docs"] }),
+      ],
+      new Map()
+    );
+
+    expect(agents).toHaveLength(1);
+    const [alice] = agents;
+    // The first spelling seen is kept
+    expect(alice.address).toBe(ALICE);
+    expect(alice.bountiesClaimed).toBe(3);
+    expect(alice.bountiesCompleted).toBe(2);
+    expect(alice.totalEarnings).toBe(15);
+    expect(alice.successRate).toBe(67);
+    expect(alice.tags).toEqual({ frontend: 2, docs: 1 });
+    expect(alice.tagStats.frontend).toEqual({ claimed: 2, completed: 2, earnings: 15, successRate: 100 });
+    expect(alice.outcomes).toEqual({ completed: 2, claimed: 1 });
+  });
+
+  test("folds tag spellings into one lowercased tag", () => {
+    const [alice] = aggregateAgents(
+      [
+        bounty({ claimedBy: ALICE, reward: "10000000", tags: ["Solidity"] }),
+        bounty({ claimedBy: ALICE, reward: "5000000", tags: ["solidity", " SOLIDITY "] }),
+        bounty({ claimedBy: ALICE, status: "claimed", tags: ["constructor"] }),
+      ],
+      new Map()
+    );
+
+    expect(alice.tags).toEqual({ solidity: 2, constructor: 1 });
+    expect(alice.tagStats.solidity).toEqual({ claimed: 2, completed: 2, earnings: 15, successRate: 100 });
+  });
+
+  test("matches on-chain data to checksummed claimers by lowercased address", () => {
+    const agents = aggregateAgents([bounty({ claimedBy: ALICE, reward: "1000000" })], onChain(reputation(ALICE, 17, [9, 8])));
+
+    expect(agents).toHaveLength(1);
+    expect(agents[0].onChainReputation).toBe(17);
+    expect(agents[0].chains).toEqual([{ chainId: 31337, chain: "local", reputationScore: 17, feedbackCount: 2, testnet: false }]);
+    expect(agents[0].recentFeedback.map((f) => f.score)).toEqual([9, 8]);
+  });
+
+  test("falls back from payment to reward, then rewardFormatted", () => {
+    const agents = aggregateAgents(
+      [
+        bounty({ claimedBy: ALICE, payment: { grossAmount: "100000000", netAmount: "95000000", fee: "5000000" } }),
+        bounty({ claimedBy: BOB, reward: "50000000" }),
+        bounty({ claimedBy: BOB, rewardFormatted: "75.5 USDC" }),
+      ],
+      new Map()
+    );
+
+    const alice = find(agents, ALICE)!;
+    expect(alice.totalEarnings).toBe(100);
+    expect(alice.netEarnings).toBe(95);
+
+    const bob = find(agents, BOB)!;
+    expect(bob.totalEarnings).toBe(125.5);
+    // Without a fee the whole reward is net
+    expect(bob.netEarnings).toBe(125.5);
+    expect(bob.history.map((h) => h.reward)).toEqual([50, 75.5]);
+  });
+
+  test("counts a completed bounty with no amount at all as unpaid", () => {
+    const agents = aggregateAgents([bounty({ claimedBy: ALICE })], new Map());
+
+    expect(agents[0].bountiesCompleted).toBe(1);
+    expect(agents[0].totalEarnings).toBe(0);
+    expect(agents[0].history[0]).toMatchObject({ reward: 0, netReward: 0, verified: false, payoutTx: null });
+  });
+
+  test("only completed bounties earn", () => {
+    const agents = aggregateAgents(
+      [bounty({ claimedBy: ALICE, status: "claimed", reward: "10000000", completedAt: "2026-08-02T00:00:00.000Z" })],
+      new Map()
+    );
+
+    expect(agents[0].totalEarnings).toBe(0);
+    expect(agents[0].history[0]).toMatchObject({ reward: 0, completedAt: null, turnaroundHours: null });
+  });
+
+  test("adds on-chain-only agents with empty bounty stats", () => {
+    const agents = aggregateAgents([bounty({ claimedBy: ALICE, reward: "1000000" })], onChain(reputation(DAVE, 5, [5])));
+
+    expect(agents).toHaveLength(2);
+    const dave = find(agents, DAVE)!;
+    expect(dave.address).toBe(DAVE);
+    expect(dave.onChainReputation).toBe(5);
+    expect(dave).toMatchObject({ bountiesClaimed: 0, bountiesCompleted: 0, totalEarnings: 0, successRate: 0, history: [] });
+    expect(dave.recentFeedback).toHaveLength(1);
+  });
+
+  test("skips unclaimed bounties", () => {
+    expect(aggregateAgents([bounty({ status: "open", reward: "1000000" })], new Map())).toEqual([]);
+  });
+
+  test("returns every agent ranked, best first", () => {
+    const agents = aggregateAgents(
+      [bounty({ claimedBy: ALICE, reward: "100000000" }), bounty({ claimedBy: BOB, status: "claimed" })],
+      onChain(reputation(DAVE, 5))
+    );
+
+    expect(agents.map((a) => a.rank)).toEqual([1, 2, 3]);
+    expect(agents.map((a) => a.score)).toEqual([...agents.map((a) => a.score)].sort((x, y) => y - x));
+    // Bob claimed without completing and has no reputation
+    expect(agents[2].address).toBe(BOB);
+  });
+});
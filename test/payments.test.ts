@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { matchPayouts, tokenInfo } from "../payments";
+import type { Bounty, TokenTransfer } from "../types";
+
+const AGENT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const POSTER = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+// PAYOUT_WALLETS in test/setup.ts
+const BOARD = "0x1000000000000000000000000000000000000001";
+const STRANGER = "0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc";
+const OTHER_TOKEN = "0x2000000000000000000000000000000000000002";
+const CREATED = 1785542400; // 2026-08-01
+
+let nextId = 1;
+function bounty(fields: Partial<Bounty> = {}): Bounty {
+  return {
+    id: String(nextId++),
+    title: "Bounty",
+    description: "",
+    status: "completed",
+    reward: "25000000",
+    rewardFormatted: "",
+    tags: [],
+    claimedBy: AGENT,
+    creator: POSTER,
+    createdAt: new Date(CREATED * 1000).toISOString(),
+    completedAt: new Date((CREATED + 86_400) * 1000).toISOString(),
+    ...fields,
+  };
+}
+
+let nextLog = 0;
+function transfer(from: string, fields: Partial<TokenTransfer> = {}): TokenTransfer {
+  const logIndex = nextLog++;
+  return {
+    chainId: 8453,
+    txHash: `0x${logIndex.toString(16).padStart(64, "0")}`,
+    logIndex,
+    token: tokenInfo().address,
+    from,
+    to: AGENT.toLowerCase(),
+    value: "25000000",
+    blockNumber: 100 + logIndex,
+    blockTime: CREATED + 3_600,
+    ...fields,
+  };
+}
+
+describe("matchPayouts", () => {
+  test("accepts transfers from the bounty's creator or a payout wallet", () => {
+    const fromPoster = bounty();
+    const fromBoard = bounty();
+    const payouts = matchPayouts([fromPoster, fromBoard], [transfer(POSTER), transfer(BOARD)]);
+
+    expect(payouts.get(fromPoster.id)?.amount).toBe(25);
+    expect(payouts.has(fromBoard.id)).toBe(true);
+  });
+
+  test("ignores transfers from anyone else, the agent included", () => {
+    const b = bounty();
+    const payouts = matchPayouts([b], [transfer(STRANGER), transfer(AGENT)]);
+
+    expect(payouts.has(b.id)).toBe(false);
+  });
+
+  test("ignores a named payout transaction sent by a third party", () => {
+    const sent = transfer(STRANGER);
+    const b = bounty({ payment: { txHash: sent.txHash } });
+
+    expect(matchPayouts([b], [sent]).has(b.id)).toBe(false);
+  });
+
+  test("leaves bounties in a token with unknown decimals unverified", () => {
+    const guessed = bounty({ payment: { token: OTHER_TOKEN, grossAmount: "25000000" } });
+    const stated = bounty({ payment: { token: OTHER_TOKEN, grossAmount: "25000000", decimals: 6 } });
+    const payouts = matchPayouts([guessed, stated], [transfer(POSTER, { token: OTHER_TOKEN }), transfer(POSTER, { token: OTHER_TOKEN })]);
+
+    expect(payouts.has(guessed.id)).toBe(false);
+    expect(payouts.has(stated.id)).toBe(true);
+  });
+
+  test("needs a creation time to match by amount", () => {
+    const b = bounty({ createdAt: undefined });
+
+    expect(matchPayouts([b], [transfer(POSTER)]).has(b.id)).toBe(false);
+  });
+});
@@ -0,0 +1,523 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { verifyTypedData } from "viem";
+
+// Every route against a real server process replaying test/fixtures, so no
+// request leaves the machine. The server reads its config at startup, hence
+// a subprocess rather than an import.
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+const DB_PATH = join(tmpdir(), `routes-test-${process.pid}.db`);
+const API_KEY = "test-key";
+const OTHER_KEY = "other-key";
+// anvil's first default account; only ever signs test attestations
+const SIGNER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const SIGNER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const CAROL = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+const DAVE = "0x23618e81E3f5cdF7f54C3d65f7FBc0aBf5B21E8f";
+const POSTER = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+const STRANGER = "0x000000000000000000000000000000000000dEaD";
+
+let server: ReturnType<typeof Bun.spawn>;
+let base: string;
+
+const get = (path: string, init?: RequestInit) => fetch(`${base}${path}`, init);
+const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+  get(path, { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body) });
+
+// Starts a replaying server with extra env on a free port and waits until it answers
+async function startServer(dbPath: string, env: Record<string, string> = {}) {
+  // Let the OS pick a free port
+  const probe = Bun.serve({ port: 0, fetch: () => new Response() });
+  const port = probe.port;
+  probe.stop(true);
+  const url = `http://127.0.0.1:${port}`;
+
+  const proc = Bun.spawn(["bun", "run", join(import.meta.dir, "..", "index.ts")], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      DB_PATH: dbPath,
+      DATA_SOURCE: "replay",
+      FIXTURES_DIR: FIXTURES,
+      CHAINS_CONFIG: join(FIXTURES, "chains.json"),
+      API_KEYS: `tests:${API_KEY},other:${OTHER_KEY}`,
+      RATE_LIMIT_IP_PER_MIN: "0",
+      ATTESTATION_PRIVATE_KEY: SIGNER_KEY,
+      LOG_REQUESTS: "false",
+      ...env,
+    },
+    stdout: "ignore",
+    stderr: "inherit",
+  });
+
+  for (let i = 0; i < 100; i++) {
+    if (await fetch(`${url}/health`).then((r) => r.ok, () => false)) return { proc, url };
+    await Bun.sleep(100);
+  }
+  proc.kill();
+  throw new Error("Server did not start");
+}
+
+async function stopServer(proc: ReturnType<typeof Bun.spawn> | undefined, dbPath: string) {
+  proc?.kill();
+  await proc?.exited;
+  for (const suffix of ["", "-wal", "-shm"]) rmSync(dbPath + suffix, { force: true });
+}
+
+beforeAll(async () => {
+  ({ proc: server, url: base } = await startServer(DB_PATH));
+});
+
+afterAll(() => stopServer(server, DB_PATH));
+
+describe("pages", () => {
+  test("GET / renders the leaderboard", async () => {
+    const res = await get("/");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/html");
+    // Third-party script is one pinned file, loaded with its integrity hash
+    const scriptSrc = res.headers.get("Content-Security-Policy")!.match(/script-src ([^;]+)/)![1].split(" ");
+    expect(scriptSrc).toEqual(["'self'", expect.stringMatching(/\/chart\.js@\d+\.\d+\.\d+\/dist\/chart\.umd\.min\.js$/)]);
+    const body = await res.text();
+    expect(body).toContain(`<script src="${scriptSrc[1]}" integrity="sha384-`);
+    expect(body).toContain(ALICE);
+    expect(body).toContain(DAVE);
+  });
+
+  test("GET /index.html is the same page", async () => {
+    expect((await get("/index.html")).status).toBe(200);
+  });
+
+  test("GET / rejects an unknown scoring profile", async () => {
+    expect((await get("/?score=nope")).status).toBe(400);
+    expect((await get("/?score=toString")).status).toBe(400);
+  });
+
+  test("GET /agent/:address renders a profile", async () => {
+    const res = await get(`/agent/${ALICE}`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("Responsive leaderboard table");
+  });
+
+  test("GET /agent/:address pages and filters the feedback list", async () => {
+    const body = await (await get(`/agent/${CAROL}?q=amazing`)).text();
+    expect(body).toContain("What Raters Say");
+    expect(body).toContain("repeated ×2");
+    expect(body).not.toContain("Self-rating</em>");
+    expect((await get(`/agent/${CAROL}?page=x`)).status).toBe(400);
+  });
+
+  test("GET /agent/:address is 404 for an unknown agent and 400 for a bad address", async () => {
+    expect((await get(`/agent/${STRANGER}`)).status).toBe(404);
+    expect((await get("/agent/0x1234")).status).toBe(400);
+  });
+
+  test("GET /compare shows the picker, a comparison, or the error", async () => {
+    expect((await get("/compare")).status).toBe(200);
+    const res = await get(`/compare?addresses=${ALICE},${BOB}`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain(BOB);
+    expect((await get(`/compare?addresses=${ALICE}`)).status).toBe(400);
+    expect((await get(`/compare?addresses=${ALICE},${STRANGER}`)).status).toBe(404);
+  });
+
+  test("GET /assets/:file.js serves the page scripts", async () => {
+    for (const file of ["dashboard", "profile", "compare"]) {
+      const res = await get(`/assets/${file}.js`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toContain("text/javascript");
+    }
+    expect((await get("/assets/other.js")).status).toBe(404);
+  });
+
+  test("GET /badge/:address.svg renders a badge that revalidates", async () => {
+    const res = await get(`/badge/${ALICE}.svg`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("image/svg+xml");
+    expect(await res.text()).toContain("<svg");
+    const etag = res.headers.get("ETag")!;
+    expect((await get(`/badge/${ALICE}.svg`, { headers: { "If-None-Match": etag } })).status).toBe(304);
+    expect((await get(`/badge/${ALICE}.svg?style=nope`)).status).toBe(400);
+    expect((await get("/badge/nope.svg")).status).toBe(400);
+  });
+
+  test("GET /og/:address.png renders a PNG card", async () => {
+    const res = await get(`/og/${ALICE}.png`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("image/png");
+    expect([...new Uint8Array(await res.arrayBuffer()).slice(0, 4)]).toEqual([0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  test("unknown paths are 404", async () => {
+    expect((await get("/nope")).status).toBe(404);
+  });
+});
+
+describe("service", () => {
+  test("GET /health reports the replay data source", async () => {
+    const health = await (await get("/health")).json();
+    expect(health.status).toBe("ok");
+    expect(health.dataSource).toEqual({ mode: "replay", fixtures: FIXTURES });
+    expect(health.chains).toHaveLength(1);
+    expect(health.chains[0]).toMatchObject({ key: "local", chainId: 31337, status: "offline" });
+  });
+
+  test("GET /metrics exposes request counters", async () => {
+    const res = await get("/metrics");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("http_requests_total");
+  });
+});
+
+describe("leaderboard API", () => {
+  test("GET /api/agents merges bounty and on-chain agents", async () => {
+    const res = await get("/api/agents");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Total-Count")).toBe("4");
+    const agents = (await res.json()) as Array<Record<string, any>>;
+    expect(agents.map((a) => a.address).sort()).toEqual([ALICE, BOB, CAROL, DAVE].sort());
+
+    // Bounties claimed under lowercase and checksummed spellings count for one agent
+    const alice = agents.find((a) => a.address === ALICE)!;
+    expect(alice).toMatchObject({ bountiesClaimed: 3, bountiesCompleted: 2, totalEarnings: 150, netEarnings: 145 });
+    // Only rewardFormatted is known for bob's completed bounty
+    expect(agents.find((a) => a.address === BOB)!.totalEarnings).toBe(75);
+    expect(agents.find((a) => a.address === DAVE)).toMatchObject({ bountiesClaimed: 0, onChainReputation: 5 });
+  });
+
+  test("GET /api/agents filters, pages and rejects bad queries", async () => {
+    const res = await get("/api/agents?tag=backend&limit=1");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([expect.objectContaining({ address: BOB })]);
+    expect((await get("/api/agents?score=onchain")).status).toBe(200);
+    expect((await get("/api/agents?score=nope")).status).toBe(400);
+    expect((await get("/api/agents?score=constructor")).status).toBe(400);
+    expect((await get("/api/agents?limit=-1")).status).toBe(400);
+  });
+
+  test("GET /api/agent/:address returns one agent", async () => {
+    const res = await get(`/api/agent/${BOB.toLowerCase()}`);
+    expect(res.status).toBe(200);
+    expect((await res.json()).address).toBe(BOB);
+    expect((await get(`/api/agent/${STRANGER}`)).status).toBe(404);
+    expect((await get("/api/agent/0xnope")).status).toBe(400);
+  });
+
+  test("GET /api/agent/:address/stats", async () => {
+    const res = await get(`/api/agent/${ALICE}/stats`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toHaveProperty("turnaround");
+    expect((await get(`/api/agent/${STRANGER}/stats`)).status).toBe(404);
+    expect((await get("/api/agent/0xnope/stats")).status).toBe(400);
+  });
+
+  test("GET /api/agent/:address/history", async () => {
+    const res = await get(`/api/agent/${ALICE}/history?interval=week`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ address: ALICE, interval: "week" });
+    expect((await get(`/api/agent/${ALICE}/history?interval=year`)).status).toBe(400);
+    expect((await get(`/api/agent/${ALICE}/history?interval=constructor`)).status).toBe(400);
+    expect((await get(`/api/agent/${ALICE}/history?from=yesterday`)).status).toBe(400);
+  });
+
+  test("GET /api/agent/:address/feedback lists and analyses every entry", async () => {
+    const res = await get(`/api/agent/${CAROL}/feedback`);
+    expect(res.status).toBe(200);
+    const analysis = await res.json();
+    expect(analysis.summary).toMatchObject({ count: 3, positive: 3, positiveRatio: 1 });
+    expect(analysis.duplicates).toEqual([{ kind: "exact", example: "Amazing", count: 2, raters: 2 }]);
+    expect(analysis.items.map((f: { duplicateGroup: number | null }) => f.duplicateGroup)).toEqual([0, 0, null]);
+
+    const filtered = await (await get(`/api/agent/${BOB}/feedback?minScore=0&q=late`)).json();
+    expect(filtered.total).toBe(1);
+    expect(filtered.items[0].score).toBe(6);
+    expect((await get(`/api/agent/${ALICE}/feedback?page=0`)).status).toBe(400);
+    expect((await get(`/api/agent/${ALICE}/feedback?minScore=11`)).status).toBe(400);
+    expect((await get(`/api/agent/${STRANGER}/feedback`)).status).toBe(404);
+  });
+
+  test("GET /api/agent/:address/risk flags self-rating", async () => {
+    const res = await get(`/api/agent/${CAROL}/risk`);
+    expect(res.status).toBe(200);
+    const report = await res.json();
+    expect(report.flags.map((f: { type: string }) => f.type)).toContain("self-rating");
+    expect((await get("/api/agent/0xnope/risk")).status).toBe(400);
+  });
+
+  test("POST /api/agent/:address/feedback/prepare builds the transaction for a poster", async () => {
+    const res = await post(`/api/agent/${ALICE}/feedback/prepare`, { from: POSTER, score: 8, comment: "Great" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ chainId: 31337, from: POSTER, to: "0x5FbDB2315678afecb367f032d93F642f64180aa3" });
+
+    expect((await post(`/api/agent/${ALICE}/feedback/prepare`, { from: STRANGER, score: 8 })).status).toBe(403);
+    expect((await post(`/api/agent/${ALICE}/feedback/prepare`, { from: POSTER, score: 11 })).status).toBe(400);
+    expect((await get(`/api/agent/${ALICE}/feedback/prepare`)).status).toBe(405);
+  });
+
+  test("GET /api/stats summarises the board", async () => {
+    const res = await get("/api/stats");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ agents: 3, completed: 4 });
+  });
+
+  test("GET /api/leaderboard/tags and /api/leaderboard/tag/:tag", async () => {
+    const tags = (await (await get("/api/leaderboard/tags")).json()) as Array<{ tag: string }>;
+    expect(tags.map((t) => t.tag).sort()).toEqual(["backend", "docs", "frontend", "testing"]);
+
+    const res = await get("/api/leaderboard/tag/frontend?sort=earnings");
+    expect(res.status).toBe(200);
+    const board = await res.json();
+    expect(board).toMatchObject({ tag: "frontend", sort: "earnings" });
+    expect(board.agents).toHaveLength(2);
+    expect((await get("/api/leaderboard/tag/nope")).status).toBe(404);
+    expect((await get("/api/leaderboard/tag/frontend?sort=nope")).status).toBe(400);
+    expect((await get("/api/leaderboard/tag/%E0%A4%A")).status).toBe(400);
+    // Tags match whatever case they're asked for in
+    expect((await get("/api/leaderboard/tag/FrontEnd")).status).toBe(200);
+  });
+
+  test("GET /api/compare", async () => {
+    const res = await get(`/api/compare?addresses=${ALICE}&addresses=${CAROL}`);
+    expect(res.status).toBe(200);
+    const comparison = await res.json();
+    expect(comparison.agents.map((a: { address: string }) => a.address)).toEqual([ALICE, CAROL]);
+    expect(comparison.leaders.totalEarnings).toBe(ALICE);
+    expect((await get(`/api/compare?addresses=${ALICE},${ALICE.toLowerCase()}`)).status).toBe(400);
+    expect((await get(`/api/compare?addresses=${ALICE},${STRANGER}`)).status).toBe(404);
+  });
+});
+
+describe("on-chain API", () => {
+  test("GET /api/reputation/:address replays recorded reads", async () => {
+    const res = await get(`/api/reputation/${CAROL}`);
+    expect(res.status).toBe(200);
+    const rep = await res.json();
+    expect(rep.reputationScore).toBe(30);
+    expect(rep.feedback).toHaveLength(3);
+  });
+
+  test("GET /api/reputation/:address is empty for an address never recorded", async () => {
+    const rep = await (await get(`/api/reputation/${STRANGER}`)).json();
+    expect(rep).toMatchObject({ reputationScore: 0, feedback: [] });
+    expect((await get("/api/reputation/0xnope")).status).toBe(400);
+  });
+
+  // Name lookups aren't part of the recorded data, so only validation is checked here
+  test("GET /api/identity/:address rejects bad input", async () => {
+    expect((await get("/api/identity/0xnope")).status).toBe(400);
+    expect((await get("/api/identity/not a name")).status).toBe(400);
+  });
+});
+
+describe("eligibility", () => {
+  test("POST /api/eligibility returns reasons and a verifiable attestation", async () => {
+    const res = await post("/api/eligibility", { bountyId: "42", requirements: { minCompleted: 1, noRiskFlags: true } });
+    expect(res.status).toBe(200);
+    const result = await res.json();
+    expect(result.qualified).toContain(ALICE);
+    expect(result.qualified).not.toContain(CAROL);
+    expect(result.qualified).not.toContain(DAVE);
+
+    const { attestation } = result;
+    expect(attestation.signer).toBe(SIGNER);
+    const valid = await verifyTypedData({
+      address: attestation.signer,
+      domain: attestation.domain,
+      types: attestation.types,
+      primaryType: attestation.primaryType,
+      message: attestation.message,
+      signature: attestation.signature,
+    });
+    expect(valid).toBe(true);
+  });
+
+  test("POST /api/eligibility validates the request", async () => {
+    expect((await post("/api/eligibility", { requirements: {} })).status).toBe(400);
+    expect((await post("/api/eligibility", { requirements: { minCompleted: -1 } })).status).toBe(400);
+    // Signed in whole basis points, so finer thresholds would be attested as something else
+    expect((await post("/api/eligibility", { requirements: { maxAbandonmentRate: 12.345 } })).status).toBe(400);
+    const res = await post("/api/eligibility", { requirements: { maxAbandonmentRate: 12.34 } });
+    expect((await res.json()).attestation.message.requirements.maxAbandonmentBps).toBe(1234);
+    expect((await get("/api/eligibility")).status).toBe(405);
+  });
+
+  test("GET /api/eligibility/signer", async () => {
+    expect(await (await get("/api/eligibility/signer")).json()).toMatchObject({
+      address: SIGNER,
+      primaryType: "EligibilityAttestation",
+    });
+  });
+});
+
+describe("exports", () => {
+  test("GET /api/export/:dataset.csv and .jsonl", async () => {
+    const csv = await get("/api/export/agents.csv");
+    expect(csv.status).toBe(200);
+    expect(csv.headers.get("Content-Type")).toContain("text/csv");
+    expect((await csv.text()).split("\n")[0]).toContain("address");
+
+    const jsonl = await get(`/api/export/bounties.jsonl?agent=${ALICE.toLowerCase()}`);
+    expect(jsonl.status).toBe(200);
+    const rows = (await jsonl.text()).trim().split("\n").map((line) => JSON.parse(line));
+    expect(rows).toHaveLength(3);
+
+    expect((await get("/api/export/feedback.csv")).status).toBe(200);
+    expect((await get("/api/export/agents.csv?from=nope")).status).toBe(400);
+    expect((await get("/api/export/other.csv")).status).toBe(404);
+  });
+
+  test("GET /api/payments/reconciliation", async () => {
+    const res = await get("/api/payments/reconciliation?month=2026-08");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ month: "2026-08" });
+    expect((await get("/api/payments/reconciliation?month=2026-13")).status).toBe(400);
+  });
+});
+
+describe("webhooks", () => {
+  const keyed = { "X-API-Key": API_KEY };
+  const other = { "X-API-Key": OTHER_KEY };
+  // A documentation address: public, so it passes the host check, and nothing is ever delivered there
+  const HOOK = "http://203.0.113.10/hook";
+
+  test("subscriptions can be created, listed, read and deleted by their API key", async () => {
+    const created = await post("/api/subscriptions", { url: HOOK, events: ["feedback.new"] }, keyed);
+    expect(created.status).toBe(201);
+    const { id, secret } = await created.json();
+    expect(secret).toBeTruthy();
+
+    const list = (await (await get("/api/subscriptions", { headers: keyed })).json()) as Array<{ id: string }>;
+    expect(list.map((s) => s.id)).toContain(id);
+    expect((await get(`/api/subscriptions/${id}`, { headers: keyed })).status).toBe(200);
+    expect((await get(`/api/subscriptions/${id}`, { method: "PUT", headers: keyed })).status).toBe(405);
+    expect((await get(`/api/subscriptions/${id}`, { method: "DELETE", headers: keyed })).status).toBe(204);
+    expect((await get(`/api/subscriptions/${id}`, { headers: keyed })).status).toBe(404);
+  });
+
+  test("other keys and anonymous callers can't see or remove a subscription", async () => {
+    const { id } = await (await post("/api/subscriptions", { url: HOOK }, keyed)).json();
+
+    expect((await get("/api/subscriptions")).status).toBe(401);
+    expect((await post("/api/subscriptions", { url: HOOK })).status).toBe(401);
+    expect((await get(`/api/subscriptions/${id}`, { method: "DELETE" })).status).toBe(401);
+    expect(await (await get("/api/subscriptions", { headers: other })).json()).toEqual([]);
+    expect((await get(`/api/subscriptions/${id}`, { headers: other })).status).toBe(404);
+    expect((await get(`/api/subscriptions/${id}`, { method: "DELETE", headers: other })).status).toBe(404);
+    expect((await get(`/api/subscriptions/${id}`, { headers: keyed })).status).toBe(200);
+  });
+
+  test("POST /api/subscriptions validates the subscription", async () => {
+    expect((await post("/api/subscriptions", { url: "ftp://example.com" }, keyed)).status).toBe(400);
+    expect((await get("/api/subscriptions", { method: "PUT", headers: keyed })).status).toBe(405);
+  });
+
+  test("POST /api/subscriptions refuses private and local targets", async () => {
+    for (const url of [
+      "http://127.0.0.1:9/hook",
+      "http://localhost/hook",
+      "http://169.254.169.254/latest/meta-data",
+      "http://10.1.2.3/hook",
+      "http://192.168.0.10/hook",
+      "http://[::1]/hook",
+      "http://metadata.google.internal/",
+    ]) {
+      expect((await post("/api/subscriptions", { url }, keyed)).status).toBe(400);
+    }
+  });
+});
+
+describe("API access", () => {
+  test("GET /api/usage needs an API key", async () => {
+    expect((await get("/api/usage")).status).toBe(401);
+    const res = await get("/api/usage", { headers: { "X-API-Key": API_KEY } });
+    expect(res.status).toBe(200);
+    expect((await res.json()).key).toBe("tests");
+  });
+
+  test("an unknown API key is refused", async () => {
+    expect((await get("/api/agents", { headers: { Authorization: "Bearer nope" } })).status).toBe(401);
+  });
+
+  test("GET /og/:address.png is rate limited like the API but needs no key", async () => {
+    const anonymous = await get(`/og/${ALICE}.png`);
+    expect(anonymous.status).toBe(200);
+    const keyed = await get(`/og/${ALICE}.png`, { headers: { "X-API-Key": API_KEY } });
+    expect(keyed.headers.get("X-RateLimit-Limit")).toBe("1200");
+    // Served from the cache until the next sync, so the image is byte-for-byte the same
+    expect(keyed.headers.get("ETag")).toBe(anonymous.headers.get("ETag"));
+    expect((await get(`/og/${ALICE}.png`, { headers: { "X-API-Key": "nope" } })).status).toBe(401);
+  });
+
+  test("pages looked up by name are rate limited, pages by address aren't", async () => {
+    const keyed = { headers: { "X-API-Key": API_KEY } };
+    expect((await get("/agent/nobody.eth", keyed)).headers.get("X-RateLimit-Limit")).toBe("1200");
+    expect((await get("/compare?addresses=nobody.eth,other.eth", keyed)).headers.get("X-RateLimit-Limit")).toBe("1200");
+    expect((await get(`/agent/${ALICE}`, keyed)).headers.get("X-RateLimit-Limit")).toBeNull();
+  });
+
+  test("GET /api/stream opens an event stream", async () => {
+    const controller = new AbortController();
+    const res = await get("/api/stream", { signal: controller.signal });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    const { value } = await res.body!.getReader().read();
+    expect(new TextDecoder().decode(value)).toContain(": connected");
+    controller.abort();
+  });
+});
+
+describe("required API keys", () => {
+  const dbPath = join(tmpdir(), `routes-test-keys-${process.pid}.db`);
+  let keyed: ReturnType<typeof Bun.spawn>;
+  let url: string;
+
+  beforeAll(async () => {
+    ({ proc: keyed, url } = await startServer(dbPath, { API_KEY_REQUIRED: "true", TRUST_PROXY: "true" }));
+  });
+
+  afterAll(() => stopServer(keyed, dbPath));
+
+  test("anonymous API calls need the session cookie a page sets", async () => {
+    // Browser-set headers are no pass
+    expect((await fetch(`${url}/api/stats`, { headers: { "Sec-Fetch-Site": "same-origin" } })).status).toBe(401);
+    expect((await fetch(`${url}/api/stats`, { headers: { Cookie: "page_session=9999999999999.forged" } })).status).toBe(401);
+
+    const page = await fetch(`${url}/`);
+    const cookie = page.headers.get("Set-Cookie")!;
+    expect(cookie).toMatch(/^page_session=\d+\.[\w-]+; Path=\/api; .*HttpOnly; SameSite=Strict$/);
+    const session = cookie.split(";")[0];
+    expect((await fetch(`${url}/api/stats`, { headers: { Cookie: session } })).status).toBe(200);
+    // The signature covers the expiry, so it can't be extended
+    const [value, signature] = session.split(".");
+    expect((await fetch(`${url}/api/stats`, { headers: { Cookie: `${value}9.${signature}` } })).status).toBe(401);
+    expect((await fetch(`${url}/api/stats`, { headers: { "X-API-Key": API_KEY } })).status).toBe(200);
+  });
+
+  test("a page session only opens the endpoints the page scripts call", async () => {
+    const session = (await fetch(`${url}/`)).headers.get("Set-Cookie")!.split(";")[0];
+    const withSession = { headers: { Cookie: session } };
+
+    expect((await fetch(`${url}/api/agents`, withSession)).status).toBe(200);
+    expect((await fetch(`${url}/api/agent/${ALICE}/history`, withSession)).status).toBe(200);
+    expect((await fetch(`${url}/api/export/agents.csv`, withSession)).status).toBe(401);
+    expect((await fetch(`${url}/api/eligibility/signer`, withSession)).status).toBe(401);
+  });
+
+  test("the client IP is the proxy's entry in X-Forwarded-For, not what the client sent", async () => {
+    const page = await fetch(`${url}/`, { headers: { "X-Forwarded-For": "9.9.9.9, 203.0.113.5" } });
+    const session = page.headers.get("Set-Cookie")!.split(";")[0];
+    const from = (forwarded: string) =>
+      fetch(`${url}/api/stats`, { headers: { Cookie: session, "X-Forwarded-For": forwarded } }).then((r) => r.status);
+
+    // Rewriting the leftmost entry doesn't make a new client...
+    expect(await from("1.2.3.4, 203.0.113.5")).toBe(200);
+    // ...and a session doesn't follow its cookie to another one
+    expect(await from("203.0.113.6")).toBe(401);
+  });
+});
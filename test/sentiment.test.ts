@@ -0,0 +1,109 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { saveReputations } from "../db";
+import { analyzeFeedback, parseFeedbackFilter, type FeedbackFilter } from "../sentiment";
+import type { FeedbackEntry } from "../types";
+
+const AGENT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const RATERS = [
+  "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65",
+  "0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc",
+  "0x976EA74026E726554dB657fA54763abd0C3a0aa9",
+  "0x14dC79964da2C08b23698B3D3cc7Ca32193d9955",
+];
+const AUG = 1785542400; // 2026-08-01
+const SEP = 1788220800; // 2026-09-01
+
+const FEEDBACK: Array<[rater: number, score: number, comment: string, timestamp: number]> = [
+  [0, 9, "Fast turnaround, clean code", AUG],
+  [1, 8, "Clean code and good tests.", AUG + 60],
+  [2, -4, "Slow turnaround on review comments", AUG + 120],
+  [3, 10, "Great work!", SEP],
+  [1, 10, "great work", SEP + 60],
+  [0, 7, "Paid bounty #12 on time", SEP + 120],
+  [2, 7, "Paid bounty #345 on time", SEP + 180],
+  [3, 0, "", SEP + 240],
+];
+
+const all: FeedbackFilter = { page: 1, minScore: null, q: null };
+
+beforeAll(() => {
+  saveReputations([
+    {
+      chainId: 31337,
+      address: AGENT,
+      reputationScore: 44,
+      feedback: FEEDBACK.map(([rater, score, comment, timestamp]): FeedbackEntry => ({ from: RATERS[rater], score, comment, timestamp })),
+    },
+  ]);
+});
+
+describe("analyzeFeedback", () => {
+  test("splits sentiment overall and by month", () => {
+    const a = analyzeFeedback(AGENT, all);
+
+    expect(a.summary).toMatchObject({ count: 8, positive: 6, neutral: 1, negative: 1, positiveRatio: 0.75, negativeRatio: 0.13 });
+    expect(a.timeline.map((m) => [m.month, m.positive, m.neutral, m.negative])).toEqual([
+      ["2026-08", 2, 0, 1],
+      ["2026-09", 4, 1, 0],
+    ]);
+  });
+
+  test("finds recurring words and phrases across distinct comments", () => {
+    const themes = analyzeFeedback(AGENT, all).themes;
+    const theme = (term: string) => themes.find((t) => t.term === term);
+
+    expect(theme("clean code")).toMatchObject({ comments: 2, raters: 2, positive: 2, negative: 0 });
+    expect(theme("turnaround")).toMatchObject({ comments: 2, positive: 1, negative: 1, averageScore: 2.5 });
+    // Only ever seen inside "clean code", so it isn't listed on its own
+    expect(theme("clean")).toBeUndefined();
+    // Repeating a comment or a template doesn't make it a theme
+    expect(theme("great work")).toBeUndefined();
+    expect(theme("paid")).toBeUndefined();
+  });
+
+  test("groups pasted and templated comments", () => {
+    const a = analyzeFeedback(AGENT, all);
+
+    expect(a.duplicates).toEqual([
+      { kind: "exact", example: "Great work!", count: 2, raters: 2 },
+      { kind: "template", example: "Paid bounty #12 on time", count: 2, raters: 2 },
+    ]);
+    const groupOf = (comment: string) => a.items.find((f) => f.comment === comment)!.duplicateGroup;
+    expect(groupOf("great work")).toBe(0);
+    expect(groupOf("Paid bounty #345 on time")).toBe(1);
+    expect(groupOf("Fast turnaround, clean code")).toBeNull();
+  });
+
+  test("lists matching entries newest first", () => {
+    const a = analyzeFeedback(AGENT, { page: 1, minScore: 8, q: "WORK" });
+
+    expect(a.total).toBe(2);
+    expect(a.items.map((f) => f.comment)).toEqual(["great work", "Great work!"]);
+    // Filters narrow the list, not the analysis
+    expect(a.summary.count).toBe(8);
+    expect(analyzeFeedback(AGENT, { ...all, q: RATERS[2].toLowerCase() }).total).toBe(2);
+    expect(analyzeFeedback(AGENT, { ...all, page: 2 }).items).toEqual([]);
+  });
+
+  test("returns empty results for an agent without feedback", () => {
+    const a = analyzeFeedback(RATERS[0], all);
+
+    expect(a.summary).toMatchObject({ count: 0, averageScore: null });
+    expect(a).toMatchObject({ timeline: [], themes: [], duplicates: [], total: 0, pages: 0, items: [] });
+  });
+});
+
+describe("parseFeedbackFilter", () => {
+  const parse = (qs: string) => parseFeedbackFilter(new URLSearchParams(qs));
+
+  test("defaults to the first page, unfiltered", () => {
+    expect(parse("")).toEqual({ page: 1, minScore: null, q: null });
+    expect(parse("page=3&minScore=-2&q=%20fast%20")).toEqual({ page: 3, minScore: -2, q: "fast" });
+  });
+
+  test("rejects bad values", () => {
+    for (const qs of ["page=0", "page=x", "minScore=11", "minScore=2.5", `q=${"a".repeat(101)}`]) {
+      expect(parse(qs)).toHaveProperty("error");
+    }
+  });
+});
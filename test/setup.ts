@@ -0,0 +1,7 @@
+import { join } from "node:path";
+
+// Modules read these at import time, so they are set before any test file loads
+process.env.DB_PATH = ":memory:";
+process.env.CHAINS_CONFIG = join(import.meta.dir, "fixtures", "chains.json");
+process.env.LOG_REQUESTS = "false";
+process.env.PAYOUT_WALLETS = "0x1000000000000000000000000000000000000001";
@@ -0,0 +1,161 @@
+// --- Types ---
+
+export interface Bounty {
+  id: string;
+  title: string;
+  description: string;
+  status: string;
+  reward: string;
+  rewardFormatted: string;
+  tags: string[];
+  claimedBy?: string;
+  /** Wallet that posted the bounty */
+  creator?: string;
+  createdAt?: string;
+  claimedAt?: string;
+  completedAt?: string;
+  /** Amounts are in the token's base units */
+  payment?: {
+    grossAmount?: string;
+    grossReward?: string;
+    /** What the agent actually received, after fees */
+    netAmount?: string;
+    fee?: string;
+    /** ERC-20 contract of the payout token; USDC on the payout chain when absent */
+    token?: string;
+    decimals?: number;
+    txHash?: string;
+  };
+}
+
+/** An ERC-20 Transfer observed on the payout chain */
+export interface TokenTransfer {
+  chainId: number;
+  txHash: string;
+  logIndex: number;
+  token: string;
+  from: string;
+  to: string;
+  /** Base units, as a decimal string */
+  value: string;
+  blockNumber: number;
+  /** Unix seconds */
+  blockTime: number;
+}
+
+export interface FeedbackEntry {
+  from: string;
+  /** Display name of the rater, when their identity is known */
+  fromName?: string | null;
+  score: number;
+  comment: string;
+  timestamp: number;
+}
+
+/** Names and metadata for an address, from ENS, Basenames and an ERC-8004 agent card */
+export interface AgentIdentity {
+  address: string;
+  /** Display name: the verified ENS name, else the verified Basename */
+  name: string | null;
+  /** The name the agent card gives itself; self-asserted, so only shown next to the address or verified name */
+  cardName: string | null;
+  /** Primary ENS name, verified to resolve back to the address */
+  ens: string | null;
+  /** Primary Basename, verified to resolve back to the address */
+  basename: string | null;
+  /** https URL */
+  avatar: string | null;
+  description: string | null;
+  links: Array<{ label: string; url: string }>;
+  /** ERC-8004 identity registration, when the agent has one */
+  agentId: string | null;
+  agentDomain: string | null;
+  resolvedAt: string;
+}
+
+/** An agent's reputation on one chain's registry */
+export interface OnChainReputation {
+  chainId: number;
+  address: string;
+  reputationScore: number;
+  feedback: FeedbackEntry[];
+}
+
+/** One chain's share of an agent's merged reputation */
+export interface ChainReputation {
+  chainId: number;
+  chain: string;
+  reputationScore: number;
+  feedbackCount: number;
+  /** Testnet reputation is listed here but not added to the agent's totals while a mainnet is enabled */
+  testnet: boolean;
+}
+
+/** An agent's reputation summed across every configured chain; feedback is merged oldest first */
+export interface MergedReputation {
+  address: string;
+  reputationScore: number;
+  feedback: FeedbackEntry[];
+  chains: ChainReputation[];
+}
+
+export interface TagStats {
+  claimed: number;
+  completed: number;
+  earnings: number;
+  successRate: number;
+}
+
+export type RiskLevel = "none" | "low" | "medium" | "high";
+
+export type ScoreComponent = "onChain" | "feedback" | "successRate" | "earnings" | "recency";
+
+export interface AgentProfile {
+  address: string;
+  /** Resolved name and metadata; null until the address has been looked up */
+  identity: AgentIdentity | null;
+  rank: number;
+  /** Positions gained (+) or lost (-) since the snapshot one rank-change window ago */
+  rankChange: number | null;
+  /** Composite reputation score, 0-100 */
+  score: number;
+  scoreBreakdown: Record<ScoreComponent, { value: number; weight: number; points: number }>;
+  /** Sum of the agent's reputation across chains; see `chains` for the split */
+  onChainReputation: number;
+  chains: ChainReputation[];
+  /** Gross earnings from completed bounties, in token units */
+  totalEarnings: number;
+  /** Earnings after platform fees */
+  netEarnings: number;
+  /** Net earnings matched to an on-chain Transfer into the agent's wallet */
+  verifiedEarnings: number;
+  bountiesCompleted: number;
+  bountiesClaimed: number;
+  successRate: number;
+  /** Claimed bounties per tag; tags are lowercased */
+  tags: Record<string, number>;
+  /** Summary of sybil/collusion flags; full report at /api/agent/:address/risk */
+  risk: { level: RiskLevel; flags: string[] };
+  /** Per-tag outcomes, computed from the bounties carrying that tag only; keyed like `tags` */
+  tagStats: Record<string, TagStats>;
+  /** Claimed bounties counted by status */
+  outcomes: Record<string, number>;
+  recentFeedback: FeedbackEntry[];
+  history: Array<{
+    bountyId: string;
+    title: string;
+    /** Gross reward in token units */
+    reward: number;
+    netReward: number;
+    token: string;
+    status: string;
+    /** Completion time for completed bounties, creation time otherwise */
+    date: string;
+    createdAt: string | null;
+    completedAt: string | null;
+    /** Hours from createdAt to completedAt */
+    turnaroundHours: number | null;
+    verified: boolean;
+    payoutTx: string | null;
+  }>;
+}
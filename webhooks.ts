@@ -0,0 +1,278 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import {
+  deleteSubscription,
+  enqueueDelivery,
+  insertSubscription,
+  loadDeliveries,
+  loadDueDeliveries,
+  loadSubscription,
+  loadSubscriptions,
+  updateDelivery,
+  type DeliveryRow,
+  type SubscriptionRow,
+} from "./db";
+import { onReputationEvents, type ReputationEvent } from "./events";
+import { checkPublicHost } from "./hosts";
+
+// --- Webhook Notifications ---
+//
+// Refresh events are fanned out to matching subscriptions as queued
+// deliveries. A worker POSTs them with an HMAC-SHA256 signature over
+// "<timestamp>.<body>" and retries failures with exponential backoff.
+// Subscriptions belong to the API key that created them, and only that key
+// can see or remove them. Targets must be public hosts, checked when a
+// subscription is created and again before every delivery, since DNS can
+// change in between.
+
+export const WEBHOOK_EVENTS = [
+  "feedback.new",
+  "feedback.negative",
+  "rank.top_entered",
+  "rank.top_left",
+  "bounty.completed",
+  "agent.registered",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface Subscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  /** Watched agents (lowercased); empty means every agent */
+  addresses: string[];
+  topN: number;
+  createdAt: string;
+}
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6", 10);
+const RETRY_BASE = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || "30000", 10);
+const DELIVERY_TIMEOUT = 10_000;
+const WORKER_INTERVAL = 5_000;
+const DEFAULT_TOP_N = 10;
+
+let workerRunning = false;
+let working = false;
+
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events),
+    addresses: JSON.parse(row.addresses),
+    topN: row.top_n,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+function toDelivery(row: DeliveryRow) {
+  return {
+    id: row.id,
+    event: row.event_type,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: new Date(row.created_at).toISOString(),
+    nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at).toISOString() : null,
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at).toISOString() : null,
+  };
+}
+
+/** Validates a POST /api/subscriptions body for the `owner` API key. The secret is only ever returned here. */
+export async function createSubscription(
+  owner: string,
+  input: unknown
+): Promise<(Subscription & { secret: string }) | { error: string }> {
+  const body = (input ?? {}) as Record<string, unknown>;
+
+  let url: URL;
+  try {
+    url = new URL(String(body.url));
+  } catch {
+    return { error: "url must be an absolute http(s) URL" };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { error: "url must be an absolute http(s) URL" };
+  }
+  const hostError = await checkPublicHost(url.hostname);
+  if (hostError) return { error: `url must point to a public host: ${hostError}` };
+
+  const events = (body.events ?? WEBHOOK_EVENTS) as WebhookEventType[];
+  if (!Array.isArray(events) || events.length === 0 || events.some((e) => !WEBHOOK_EVENTS.includes(e))) {
+    return { error: `events must be a non-empty subset of: ${WEBHOOK_EVENTS.join(", ")}` };
+  }
+
+  const addresses = (body.addresses ?? []) as string[];
+  if (!Array.isArray(addresses) || addresses.some((a) => !/^0x[0-9a-fA-F]{40}$/.test(String(a)))) {
+    return { error: "addresses must be an array of 0x-prefixed addresses" };
+  }
+
+  const topN = body.topN ?? DEFAULT_TOP_N;
+  if (!Number.isInteger(topN) || (topN as number) < 1) {
+    return { error: "topN must be a positive integer" };
+  }
+
+  const row: SubscriptionRow = {
+    id: randomUUID(),
+    url: url.toString(),
+    secret: randomBytes(32).toString("hex"),
+    events: JSON.stringify([...new Set(events)]),
+    addresses: JSON.stringify([...new Set(addresses.map((a) => a.toLowerCase()))]),
+    top_n: topN as number,
+    created_at: Date.now(),
+    owner,
+  };
+  insertSubscription(row);
+  return { ...toSubscription(row), secret: row.secret };
+}
+
+export function listSubscriptions(owner: string): Subscription[] {
+  return loadSubscriptions(owner).map(toSubscription);
+}
+
+// Another key's subscription is reported as missing, so ids can't be probed
+function ownedSubscription(owner: string, id: string): SubscriptionRow | null {
+  const row = loadSubscription(id);
+  return row && row.owner === owner ? row : null;
+}
+
+/** One of `owner`'s subscriptions with its most recent deliveries, newest first. */
+export function getSubscription(owner: string, id: string) {
+  const row = ownedSubscription(owner, id);
+  if (!row) return null;
+  return { ...toSubscription(row), deliveries: loadDeliveries(id, 50).map(toDelivery) };
+}
+
+export function removeSubscription(owner: string, id: string): boolean {
+  return ownedSubscription(owner, id) !== null && deleteSubscription(id);
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Translate one refresh event into the webhook events a subscription asked for
+function matchEvent(sub: Subscription, event: ReputationEvent): Array<{ type: WebhookEventType; data: object }> {
+  const wants = (type: WebhookEventType) => sub.events.includes(type);
+  const watched = sub.addresses.length === 0 || sub.addresses.includes(event.address);
+  const out: Array<{ type: WebhookEventType; data: object }> = [];
+
+  switch (event.type) {
+    case "feedback.new":
+      if (!watched) break;
+      if (wants("feedback.new")) out.push({ type: "feedback.new", data: event });
+      if (event.feedback.score < 0 && wants("feedback.negative")) {
+        out.push({ type: "feedback.negative", data: event });
+      }
+      break;
+    case "rank.changed": {
+      if (!watched) break;
+      const wasIn = event.previousRank !== null && event.previousRank <= sub.topN;
+      const isIn = event.rank !== null && event.rank <= sub.topN;
+      if (!wasIn && isIn && wants("rank.top_entered")) {
+        out.push({ type: "rank.top_entered", data: { ...event, topN: sub.topN } });
+      }
+      if (wasIn && !isIn && wants("rank.top_left")) {
+        out.push({ type: "rank.top_left", data: { ...event, topN: sub.topN } });
+      }
+      break;
+    }
+    case "bounty.completed":
+      if (watched && wants("bounty.completed")) out.push({ type: "bounty.completed", data: event });
+      break;
+    case "agent.registered":
+      if (wants("agent.registered")) out.push({ type: "agent.registered", data: event });
+      break;
+  }
+  return out;
+}
+
+function enqueueEvents(events: ReputationEvent[]): void {
+  const createdAt = new Date().toISOString();
+  for (const sub of loadSubscriptions().map(toSubscription)) {
+    for (const event of events) {
+      for (const { type, data } of matchEvent(sub, event)) {
+        const payload = JSON.stringify({ id: `evt_${randomUUID()}`, type, createdAt, data });
+        enqueueDelivery(sub.id, type, payload);
+      }
+    }
+  }
+}
+
+async function deliver(row: DeliveryRow, sub: SubscriptionRow): Promise<void> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = row.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const hostError = await checkPublicHost(new URL(sub.url).hostname);
+    if (hostError) throw new Error(`Refused: ${hostError}`);
+    const res = await fetch(sub.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "bounty-reputation-dashboard",
+        "X-Webhook-Id": String(row.id),
+        "X-Webhook-Event": row.event_type,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signPayload(sub.secret, timestamp, row.payload)}`,
+      },
+      body: row.payload,
+      // A redirect could lead anywhere, including back inside the network
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+    });
+    responseStatus = res.status;
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    updateDelivery(row.id, {
+      status: "delivered",
+      attempts,
+      response_status: responseStatus,
+      error: null,
+      next_attempt_at: null,
+      delivered_at: Date.now(),
+    });
+    return;
+  }
+
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  updateDelivery(row.id, {
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    response_status: responseStatus,
+    error,
+    next_attempt_at: exhausted ? null : Date.now() + RETRY_BASE * 2 ** (attempts - 1),
+    delivered_at: null,
+  });
+}
+
+async function processDue(): Promise<void> {
+  if (working) return;
+  working = true;
+  try {
+    for (const row of loadDueDeliveries(Date.now(), 50)) {
+      const sub = loadSubscription(row.subscription_id);
+      if (sub) await deliver(row, sub);
+    }
+  } finally {
+    working = false;
+  }
+}
+
+/** Subscribes to refresh events and starts the delivery worker. */
+export function startWebhookWorker(): void {
+  if (workerRunning) return;
+  workerRunning = true;
+
+  onReputationEvents(enqueueEvents);
+  setInterval(() => {
+    processDue().catch((err) => console.error(`Webhook worker error: ${err instanceof Error ? err.message : err}`));
+  }, WORKER_INTERVAL);
+}